@@ -0,0 +1,104 @@
+import { isAbsolute, relative } from "path";
+import { SessionActivity, TranscriptToolUseBlock } from "./types.js";
+
+// Keep long sessions from producing unbounded metadata
+const MAX_FILES = 500;
+const MAX_COMMANDS = 200;
+const MAX_COMMAND_LENGTH = 500;
+
+const READ_TOOLS = new Set(["Read", "View", "NotebookRead"]);
+const CREATE_TOOLS = new Set(["Create", "Write"]);
+const EDIT_TOOLS = new Set(["Edit", "MultiEdit", "NotebookEdit"]);
+const EXECUTE_TOOLS = new Set(["Execute", "Bash"]);
+
+export function emptyActivity(): SessionActivity {
+  return {
+    filesRead: [],
+    filesCreated: [],
+    filesEdited: [],
+    filesDeleted: [],
+    commands: [],
+    tools: {},
+  };
+}
+
+function addUnique(list: string[], item: string, max: number): void {
+  if (list.length < max && !list.includes(item)) {
+    list.push(item);
+  }
+}
+
+// Paths inside cwd are stored relative to it; anything outside stays absolute
+function toDisplayPath(path: string, cwd: string | undefined): string {
+  if (!cwd || !isAbsolute(path)) return path;
+  const rel = relative(cwd, path);
+  return rel && !rel.startsWith("..") && !isAbsolute(rel) ? rel : path;
+}
+
+function inputPath(input: Record<string, unknown>): string | undefined {
+  for (const key of ["file_path", "filePath", "path", "notebook_path"]) {
+    const value = input[key];
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+// ApplyPatch carries its targets in "*** Add/Update/Delete File: <path>" headers
+function patchTargets(patch: string): { op: "add" | "update" | "delete"; path: string }[] {
+  const targets: { op: "add" | "update" | "delete"; path: string }[] = [];
+  for (const match of patch.matchAll(/^\*\*\* (Add|Update|Delete) File: (.+)$/gm)) {
+    targets.push({ op: match[1].toLowerCase() as "add" | "update" | "delete", path: match[2].trim() });
+  }
+  return targets;
+}
+
+function recordFile(activity: SessionActivity, op: "read" | "add" | "update" | "delete", path: string): void {
+  switch (op) {
+    case "read":
+      addUnique(activity.filesRead, path, MAX_FILES);
+      break;
+    case "add":
+      addUnique(activity.filesCreated, path, MAX_FILES);
+      break;
+    case "update":
+      // Edits to a file created in this session are part of creating it
+      if (!activity.filesCreated.includes(path)) {
+        addUnique(activity.filesEdited, path, MAX_FILES);
+      }
+      break;
+    case "delete":
+      addUnique(activity.filesDeleted, path, MAX_FILES);
+      break;
+  }
+}
+
+export function recordToolUse(activity: SessionActivity, block: TranscriptToolUseBlock, cwd?: string): void {
+  const stats = (activity.tools[block.name] ??= { calls: 0, errors: 0 });
+  stats.calls++;
+
+  const input = block.input ?? {};
+  const path = inputPath(input);
+
+  if (READ_TOOLS.has(block.name) && path) {
+    recordFile(activity, "read", toDisplayPath(path, cwd));
+  } else if (CREATE_TOOLS.has(block.name) && path) {
+    recordFile(activity, "add", toDisplayPath(path, cwd));
+  } else if (EDIT_TOOLS.has(block.name) && path) {
+    recordFile(activity, "update", toDisplayPath(path, cwd));
+  } else if (EXECUTE_TOOLS.has(block.name) && typeof input.command === "string") {
+    const command = input.command.trim();
+    if (command && activity.commands.length < MAX_COMMANDS) {
+      activity.commands.push(command.slice(0, MAX_COMMAND_LENGTH));
+    }
+  } else if (block.name === "ApplyPatch") {
+    const patch = typeof input.patch === "string" ? input.patch : typeof input.input === "string" ? input.input : "";
+    for (const target of patchTargets(patch)) {
+      recordFile(activity, target.op, toDisplayPath(target.path, cwd));
+    }
+  }
+}
+
+export function recordToolError(activity: SessionActivity, toolName: string): void {
+  const stats = (activity.tools[toolName] ??= { calls: 0, errors: 0 });
+  stats.errors++;
+}
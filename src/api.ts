@@ -1,46 +1,47 @@
-import { getConfig, Config } from "./config.js";
+import { Config, ConvexProfile, resolveApiKey } from "./config.js";
+import { Sink } from "./sinks.js";
 import { SessionData, MessageData } from "./types.js";
+import { httpRequest, idempotencyKey, responseOk } from "./http.js";
+import { chunkBatch, jsonBytes, sendChunks, OnChunk } from "./batch.js";
 
-export class SyncClient {
+// Sink for the OpenSync Convex backend
+export class SyncClient implements Sink {
   private config: Config;
+  private profile: ConvexProfile;
   private siteUrl: string;
 
-  constructor(config: Config) {
+  constructor(config: Config, profile?: ConvexProfile) {
     this.config = config;
-    this.siteUrl = config.convexUrl.replace(".convex.cloud", ".convex.site");
+    this.profile = profile ?? {
+      convexUrl: config.convexUrl,
+      apiKey: config.apiKey,
+      apiKeyCommand: config.apiKeyCommand,
+      apiKeyFile: config.apiKeyFile,
+    };
+    this.siteUrl = this.profile.convexUrl.replace(".convex.cloud", ".convex.site");
   }
 
-  private async request(endpoint: string, data: unknown): Promise<unknown> {
-    const url = `${this.siteUrl}${endpoint}`;
-    const debug = process.env.DROID_SYNC_DEBUG === "true";
-
-    if (debug) {
-      console.error(`[droid-sync:api] POST ${url}`);
-      console.error(`[droid-sync:api] Payload: ${JSON.stringify(data)}`);
-    }
-
-    const response = await fetch(url, {
+  private async request(endpoint: string, data: unknown, externalIds: string[]): Promise<unknown> {
+    const body = JSON.stringify(data);
+    const response = await httpRequest(`${this.siteUrl}${endpoint}`, {
       method: "POST",
+      label: `POST ${endpoint}`,
+      config: this.config.http,
       headers: {
+        ...this.config.http?.headers,
         "Content-Type": "application/json",
-        Authorization: `Bearer ${this.config.apiKey}`,
+        Authorization: `Bearer ${resolveApiKey(this.profile)}`,
+        // Retries of this request carry the same key, so the backend can drop repeats
+        "Idempotency-Key": idempotencyKey(externalIds, body),
       },
-      body: JSON.stringify(data),
+      body,
     });
 
-    if (!response.ok) {
-      const text = await response.text();
-      if (debug) {
-        console.error(`[droid-sync:api] Error ${response.status}: ${text}`);
-      }
-      throw new Error(`Sync failed: ${response.status} - ${text}`);
+    if (!responseOk(response)) {
+      // The body can echo the payload back, and this error is logged and kept in the outbox
+      throw new Error(`Sync failed: HTTP ${response.status}`);
     }
-
-    const result = await response.json();
-    if (debug) {
-      console.error(`[droid-sync:api] Response: ${JSON.stringify(result)}`);
-    }
-    return result;
+    return response.body ? JSON.parse(response.body) : null;
   }
 
   private transformSession(session: SessionData): Record<string, unknown> {
@@ -51,80 +52,125 @@ export class SyncClient {
       projectName: session.projectName,
       model: session.model,
       source: session.source,
+      startSource: session.startSource ?? session.lifecycle?.startSource,
+      status: session.lifecycle?.status,
+      endedAt: session.lifecycle?.endedAt,
+      endReason: session.lifecycle?.endReason,
+      predecessorExternalId: session.lifecycle?.predecessorSessionId,
+      resumeCount: session.lifecycle?.resumeCount,
+      compactionCount: session.lifecycle?.compactionCount,
+      gitBranch: session.gitBranch,
+      gitRemoteUrl: session.workspace?.remoteUrl,
+      gitRepoRoot: session.workspace?.repoRoot,
+      gitRelativeCwd: session.workspace?.relativeCwd,
+      gitStartCommit: session.workspace?.startCommit,
+      gitHeadCommit: session.workspace?.headCommit,
+      gitDirty: session.workspace?.dirty,
+      gitCommitCount: session.workspace?.commitCount,
+      gitCommits: session.workspace?.commits,
+      diffFilesChanged: session.workspace?.diffStat?.filesChanged,
+      diffInsertions: session.workspace?.diffStat?.insertions,
+      diffDeletions: session.workspace?.diffStat?.deletions,
+      activity: session.activity,
+      leafMessageId: session.conversation?.leafMessageId,
+      branchCount: session.conversation?.branchCount,
+      abandonedMessageIds: session.conversation?.abandonedMessageIds,
       promptTokens: session.tokenUsage?.input,
       completionTokens: session.tokenUsage?.output,
+      cacheCreationTokens: session.tokenUsage?.cacheCreation,
+      cacheReadTokens: session.tokenUsage?.cacheRead,
+      reasoningTokens: session.tokenUsage?.thinking,
       cost: session.costEstimate,
       durationMs: session.durationMs,
     };
   }
 
   private transformMessage(message: MessageData): Record<string, unknown> {
+    const parts: Record<string, unknown>[] = [];
+
+    if (message.thinkingContent) {
+      parts.push({
+        type: "thinking",
+        content: message.thinkingContent,
+      });
+    }
+
+    if (message.toolName) {
+      parts.push({
+        type: "tool_use",
+        content: {
+          toolName: message.toolName,
+          args: message.toolArgs,
+          result: message.toolResult,
+        },
+      });
+    }
+
+    for (const image of message.images ?? []) {
+      parts.push({
+        type: "image",
+        content: image,
+      });
+    }
+
     return {
       sessionExternalId: message.sessionId,
       externalId: message.messageId,
+      parentExternalId: message.parentMessageId,
+      sequence: message.sequence,
+      branch: message.branch,
+      abandoned: message.abandoned,
       role: message.role,
       textContent: message.content || message.toolResult,
       model: undefined,
       durationMs: message.durationMs,
       source: message.source,
-      parts: message.toolName
-        ? [
-            {
-              type: "tool_use",
-              content: {
-                toolName: message.toolName,
-                args: message.toolArgs,
-                result: message.toolResult,
-              },
-            },
-          ]
-        : undefined,
+      redactionCount: message.redactionCount || undefined,
+      parts: parts.length > 0 ? parts : undefined,
     };
   }
 
   async syncSession(session: SessionData): Promise<void> {
     const payload = this.transformSession(session);
-    await this.request("/sync/session", payload);
+    await this.request("/sync/session", payload, [session.sessionId]);
   }
 
-  async syncBatch(sessions: SessionData[], messages: MessageData[]): Promise<void> {
-    const transformedSessions = sessions.map((s) => this.transformSession(s));
-    const transformedMessages = messages.map((m) => this.transformMessage(m));
-    await this.request("/sync/batch", {
-      sessions: transformedSessions,
-      messages: transformedMessages,
-    });
+  async syncBatch(sessions: SessionData[], messages: MessageData[], onChunk?: OnChunk): Promise<void> {
+    // Sized by the payload actually sent, which differs from the plugin's own records
+    const chunks = chunkBatch(sessions, messages, this.config.batch, (m) => jsonBytes(this.transformMessage(m)));
+    await sendChunks(
+      chunks,
+      async (chunk) => {
+        await this.request(
+          "/sync/batch",
+          {
+            sessions: chunk.sessions.map((s) => this.transformSession(s)),
+            messages: chunk.messages.map((m) => this.transformMessage(m)),
+          },
+          [...chunk.sessions.map((s) => s.sessionId), ...chunk.messages.map((m) => m.messageId)]
+        );
+      },
+      onChunk
+    );
+  }
+
+  async verify(): Promise<void> {
+    // An empty batch exercises the API key without writing anything
+    await this.request("/sync/batch", { sessions: [], messages: [] }, []);
   }
 
   async testConnection(): Promise<boolean> {
     try {
-      const url = `${this.siteUrl}/health`;
-      const response = await fetch(url);
-      return response.ok;
+      const response = await httpRequest(`${this.siteUrl}/health`, {
+        method: "GET",
+        label: "GET /health",
+        config: this.config.http,
+        headers: { ...this.config.http?.headers },
+        retries: 0,
+      });
+      return responseOk(response);
     } catch {
       return false;
     }
   }
 }
-
-let clientInstance: SyncClient | null = null;
-
-export function getClient(): SyncClient | null {
-  if (clientInstance) return clientInstance;
-
-  const config = getConfig();
-  if (!config) return null;
-
-  clientInstance = new SyncClient(config);
-  return clientInstance;
-}
-
-export async function testConnection(): Promise<{ ok: boolean; error?: string }> {
-  const client = getClient();
-  if (!client) {
-    return { ok: false, error: "Not configured" };
-  }
-
-  const ok = await client.testConnection();
-  return ok ? { ok: true } : { ok: false, error: "Connection failed" };
-}
@@ -0,0 +1,142 @@
+import { BatchConfig } from "./config.js";
+import { logInfo } from "./log.js";
+import { truncate } from "./transcript.js";
+import { DEFAULT_BATCH_MAX_BYTES, DEFAULT_BATCH_MAX_MESSAGES } from "./schema.js";
+import { SessionData, MessageData } from "./types.js";
+
+// One request's worth of a sync
+export interface Chunk {
+  sessions: SessionData[];
+  messages: MessageData[];
+}
+
+// Called after each chunk is delivered, with its messages as sent (after any truncation)
+export type OnChunk = (messages: MessageData[]) => void;
+
+// Serialized size of a message as the destination receives it
+type Measure = (message: MessageData) => number;
+
+// Room for the request body around the records ({"sessions":[],"messages":[]} and commas)
+const ENVELOPE_BYTES = 256;
+
+const TEXT_FIELDS = ["content", "thinkingContent", "toolResult"] as const;
+
+export function jsonBytes(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value));
+}
+
+function fieldLength(message: MessageData, field: (typeof TEXT_FIELDS)[number] | "toolArgs"): number {
+  if (field === "toolArgs") return message.toolArgs ? JSON.stringify(message.toolArgs).length : 0;
+  return message[field]?.length ?? 0;
+}
+
+/**
+ * Shrink a message that alone is larger than `maxBytes`: image data goes first
+ * (its metadata stays, marked omitted), then the longest text fields are cut,
+ * each once, to the longest prefix that fits, with a truncation marker. Messages that fit are returned as is.
+ */
+export function fitMessage(message: MessageData, maxBytes: number, measure: Measure = jsonBytes): MessageData {
+  let size = measure(message);
+  if (size <= maxBytes) return message;
+
+  const fitted: MessageData = { ...message, images: message.images?.map((image) => ({ ...image })) };
+
+  const withData = (fitted.images ?? []).filter((image) => image.data !== undefined);
+  withData.sort((a, b) => b.data!.length - a.data!.length);
+  for (const image of withData) {
+    if (size <= maxBytes) break;
+    delete image.data;
+    image.omitted = "batch-limit";
+    size = measure(fitted);
+  }
+
+  const fields = [...TEXT_FIELDS, "toolArgs" as const].filter((field) => fieldLength(fitted, field) > 0);
+  fields.sort((a, b) => fieldLength(fitted, b) - fieldLength(fitted, a));
+  for (const field of fields) {
+    if (size <= maxBytes) break;
+    const original = field === "toolArgs" ? JSON.stringify(fitted.toolArgs) : fitted[field]!;
+    const cut = (keep: number) => {
+      if (field === "toolArgs") {
+        fitted.toolArgs = { truncated: truncate(original, keep) };
+      } else {
+        fitted[field] = truncate(original, keep);
+      }
+    };
+
+    // Longest prefix that fits, in serialized bytes: multibyte and escaped
+    // characters take more than one. truncate() treats 0 as "no limit", so
+    // keep at least one character.
+    let low = 1;
+    let high = original.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      cut(mid);
+      if (measure(fitted) <= maxBytes) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    cut(low);
+    size = measure(fitted);
+  }
+
+  logInfo("sync", `Truncated oversized message ${message.messageId} to fit ${maxBytes} bytes`, {
+    sessionId: message.sessionId,
+  });
+  return fitted;
+}
+
+/**
+ * Split a sync into requests of at most `batch.maxMessages` messages and
+ * `batch.maxBytes` serialized bytes, in order. Sessions go with the first
+ * chunk. There is always at least one chunk, even for an empty sync.
+ */
+export function chunkBatch(
+  sessions: SessionData[],
+  messages: MessageData[],
+  config: BatchConfig = {},
+  measure: Measure = jsonBytes
+): Chunk[] {
+  const maxMessages = config.maxMessages ?? DEFAULT_BATCH_MAX_MESSAGES;
+  const maxBytes = config.maxBytes ?? DEFAULT_BATCH_MAX_BYTES;
+  const countLimit = maxMessages > 0 ? maxMessages : Infinity;
+  const byteLimit = maxBytes > 0 ? maxBytes : Infinity;
+
+  const chunks: Chunk[] = [];
+  let current: Chunk = { sessions, messages: [] };
+  let bytes = ENVELOPE_BYTES + jsonBytes(sessions);
+
+  for (const message of messages) {
+    const fitted = fitMessage(message, byteLimit - ENVELOPE_BYTES, measure);
+    // Plus the separating comma
+    const size = measure(fitted) + 1;
+
+    const empty = current.sessions.length === 0 && current.messages.length === 0;
+    if (!empty && (current.messages.length >= countLimit || bytes + size > byteLimit)) {
+      chunks.push(current);
+      current = { sessions: [], messages: [] };
+      bytes = ENVELOPE_BYTES;
+    }
+    current.messages.push(fitted);
+    bytes += size;
+  }
+
+  chunks.push(current);
+  return chunks;
+}
+
+// Deliver chunks in order, stopping at the first one that fails
+export async function sendChunks(
+  chunks: Chunk[],
+  send: (chunk: Chunk) => Promise<void>,
+  onChunk?: OnChunk
+): Promise<void> {
+  for (const [i, chunk] of chunks.entries()) {
+    await send(chunk);
+    if (chunks.length > 1) {
+      logInfo("sync", `Sent chunk ${i + 1}/${chunks.length}`, { messages: chunk.messages.length });
+    }
+    onChunk?.(chunk.messages);
+  }
+}
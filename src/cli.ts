@@ -1,12 +1,43 @@
 #!/usr/bin/env node
 
 import { createInterface } from "readline";
-import { getConfig, setConfig, clearConfig, Config } from "./config.js";
-import { testConnection } from "./api.js";
-import { dispatchHook } from "./hooks.js";
-import { existsSync, readFileSync, writeFileSync } from "fs";
-import { homedir } from "os";
-import { join } from "path";
+import {
+  getConfig,
+  setConfig,
+  clearConfig,
+  readConfigFile,
+  resolveFields,
+  setConfigValue,
+  unsetConfigValue,
+  ResolvedField,
+  CONFIG_FILE,
+  listProfiles,
+  getActiveProfileName,
+  isConvexProfile,
+  Config,
+  ConvexProfile,
+  Profile,
+  DEFAULT_PROFILE,
+} from "./config.js";
+import { testConnection, getSink } from "./sinks.js";
+import { dispatchHook, runHookWorker, HOOK_EVENTS } from "./hooks.js";
+import { runDoctor } from "./doctor.js";
+import { CONFIG_FIELDS, getField } from "./schema.js";
+import {
+  getHookStatus,
+  getSettingsPath,
+  installHooks,
+  uninstallHooks,
+  parseEvents,
+  HookScope,
+  HookStatus,
+} from "./settings.js";
+import { readLog, followLog, formatLogEntry, LogEntry, LOG_FILE } from "./log.js";
+import { flushOutbox, getOutboxDepth } from "./outbox.js";
+import { importSessions, DEFAULT_SESSIONS_DIR } from "./import.js";
+import { resolvePolicy } from "./policy.js";
+import { resolveTranscriptPath, loadSession, renderSession, ExportFormat } from "./export.js";
+import { existsSync, writeFileSync } from "fs";
 
 const VERSION = "0.1.0";
 
@@ -23,8 +54,86 @@ function prompt(question: string): Promise<string> {
   });
 }
 
-async function login(): Promise<void> {
-  console.log("🔧 droid-sync login\n");
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  return value && !value.startsWith("--") ? value : undefined;
+}
+
+function hasFlag(args: string[], name: string): boolean {
+  return args.includes(`--${name}`);
+}
+
+function getPositional(args: string[], valueFlags: string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      if (valueFlags.includes(args[i].slice(2))) i++;
+      continue;
+    }
+    positional.push(args[i]);
+  }
+  return positional;
+}
+
+function parseDateFlag(args: string[], name: string): Date | undefined {
+  const value = getFlag(args, name);
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(`❌ Invalid date for --${name}: ${value}`);
+    process.exit(1);
+  }
+  return date;
+}
+
+function maskKey(apiKey: string): string {
+  // Short values would be mostly revealed by the prefix and suffix
+  if (apiKey.length < 16) return "****";
+  return `${apiKey.slice(0, 8)}****${apiKey.slice(-4)}`;
+}
+
+function describeApiKey(profile: ConvexProfile): string {
+  if (profile.apiKey) return maskKey(profile.apiKey);
+  if (profile.apiKeyFile) return `from file ${profile.apiKeyFile}`;
+  return `from command: ${profile.apiKeyCommand}`;
+}
+
+// Copy of the config that is safe to print: API keys and literal header values are masked
+function maskSecrets(config: Config): Config {
+  const masked = JSON.parse(JSON.stringify(config)) as Config;
+  if (masked.apiKey) {
+    masked.apiKey = maskKey(masked.apiKey);
+  } else {
+    // Filled in as "" when the key comes from elsewhere
+    delete (masked as Partial<Config>).apiKey;
+  }
+  for (const [name, value] of Object.entries(masked.http?.headers ?? {})) {
+    masked.http!.headers![name] = maskKey(value);
+  }
+  for (const profile of Object.values(masked.profiles ?? {})) {
+    if (isConvexProfile(profile) && profile.apiKey) {
+      profile.apiKey = maskKey(profile.apiKey);
+    } else if (profile.type === "webhook") {
+      for (const [name, value] of Object.entries(profile.headers ?? {})) {
+        // "{{env.NAME}}" references are not secrets themselves
+        if (!value.includes("{{")) profile.headers![name] = maskKey(value);
+      }
+    }
+  }
+  return masked;
+}
+
+function describeProfile(profile: Profile): string {
+  if (isConvexProfile(profile)) return profile.convexUrl;
+  if (profile.type === "webhook") return `webhook ${profile.url}`;
+  return `${profile.type} ${profile.path}`;
+}
+
+async function login(args: string[]): Promise<void> {
+  const profileName = getFlag(args, "profile") ?? DEFAULT_PROFILE;
+  console.log(`🔧 droid-sync login${profileName === DEFAULT_PROFILE ? "" : ` (profile: ${profileName})`}\n`);
 
   const convexUrl = await prompt("Convex URL (e.g., https://your-project.convex.cloud): ");
   if (!convexUrl) {
@@ -32,39 +141,133 @@ async function login(): Promise<void> {
     process.exit(1);
   }
 
-  const apiKey = await prompt("API Key (starts with osk_): ");
-  if (!apiKey) {
+  // Keep other profiles and settings already in the file
+  const existing = readConfigFile();
+  const existingProfile = existing.profiles?.[profileName];
+  const previous: Partial<ConvexProfile> =
+    profileName === DEFAULT_PROFILE
+      ? existing
+      : existingProfile && isConvexProfile(existingProfile)
+        ? existingProfile
+        : {};
+  // A key from a command or file can stay there instead of being stored in the config
+  const keySource = previous.apiKeyCommand ? "apiKeyCommand" : previous.apiKeyFile ? "apiKeyFile" : undefined;
+
+  const apiKey = await prompt(
+    keySource ? `API Key (leave empty to keep using ${keySource}): ` : "API Key (starts with osk_): "
+  );
+  if (!apiKey && !keySource) {
     console.error("❌ API Key is required");
     process.exit(1);
   }
 
-  const config: Config = {
-    convexUrl,
-    apiKey,
+  const config: Partial<Config> = {
     autoSync: true,
     syncToolCalls: true,
     syncThinking: false,
+    ...existing,
   };
 
+  if (profileName === DEFAULT_PROFILE) {
+    config.convexUrl = convexUrl;
+    if (apiKey) config.apiKey = apiKey;
+  } else {
+    const profile: Partial<ConvexProfile> = { ...previous, convexUrl };
+    if (apiKey) profile.apiKey = apiKey;
+    config.profiles = { ...existing.profiles, [profileName]: profile as ConvexProfile };
+  }
+
   setConfig(config);
 
   console.log("\n⏳ Testing connection...");
-  const result = await testConnection();
+  const result = await testConnection(profileName);
 
   if (result.ok) {
     console.log("✅ Connected successfully!");
     console.log("\n📝 Registering hooks...");
-    await registerHooks();
-    console.log("✅ Hooks registered in ~/.factory/settings.json");
+    try {
+      console.log(`✅ Hooks registered in ${registerUserHooks()}`);
+    } catch (e) {
+      console.error(`❌ Couldn't register hooks: ${(e as Error).message}`);
+      process.exit(1);
+    }
   } else {
     console.error(`❌ Connection failed: ${result.error}`);
     process.exit(1);
   }
 }
 
-async function logout(): Promise<void> {
-  clearConfig();
-  console.log("✅ Credentials cleared");
+async function logout(args: string[]): Promise<void> {
+  const profileName = getFlag(args, "profile");
+  if (!profileName) {
+    clearConfig();
+    console.log("✅ Credentials cleared");
+
+    // Nothing left to sync to, so stop Droid from running the hooks
+    for (const scope of ["user", "project"] as const) {
+      try {
+        const result = uninstallHooks({ scope });
+        if (result.removed > 0) {
+          console.log(`✅ Removed ${result.removed} hook(s) from ${result.path}`);
+        }
+      } catch (e) {
+        console.error(`⚠️  Couldn't remove hooks from ${getSettingsPath(scope)}: ${(e as Error).message}`);
+      }
+    }
+    return;
+  }
+
+  const config = readConfigFile();
+  if (profileName === DEFAULT_PROFILE) {
+    delete config.convexUrl;
+    delete config.apiKey;
+  }
+  if (config.profiles) {
+    delete config.profiles[profileName];
+  }
+  if (config.activeProfile === profileName) {
+    delete config.activeProfile;
+  }
+  setConfig(config);
+  console.log(`✅ Credentials cleared for profile "${profileName}"`);
+}
+
+async function profileCommand(args: string[]): Promise<void> {
+  const config = getConfig();
+  if (!config) {
+    console.log("❌ Not configured. Run: droid-sync login");
+    process.exit(1);
+  }
+
+  const profiles = listProfiles(config);
+  const active = getActiveProfileName(config);
+  const [subcommand, name] = args;
+
+  switch (subcommand) {
+    case "use": {
+      if (!name) {
+        console.error("Usage: droid-sync profile use <name>");
+        process.exit(1);
+      }
+      if (!profiles[name]) {
+        console.error(`❌ Unknown profile "${name}". Run: droid-sync login --profile ${name}`);
+        process.exit(1);
+      }
+      setConfig({ ...readConfigFile(), activeProfile: name });
+      console.log(`✅ Active profile: ${name}`);
+      break;
+    }
+    case "list":
+    case undefined:
+      for (const [profileName, profile] of Object.entries(profiles)) {
+        const marker = profileName === active ? "*" : " ";
+        console.log(`${marker} ${profileName.padEnd(12)} ${describeProfile(profile)}`);
+      }
+      break;
+    default:
+      console.error(`Unknown profile command: ${subcommand}`);
+      process.exit(1);
+  }
 }
 
 async function status(): Promise<void> {
@@ -76,20 +279,49 @@ async function status(): Promise<void> {
     return;
   }
 
+  const profiles = listProfiles(config);
+  const active = getActiveProfileName(config);
+  const activeProfile = profiles[active];
+
   console.log("Configuration:");
-  console.log(`  Convex URL: ${config.convexUrl}`);
-  console.log(`  API Key:    ${config.apiKey.slice(0, 8)}****${config.apiKey.slice(-4)}`);
+  console.log(`  Profile:    ${active}${Object.keys(profiles).length > 1 ? ` (of ${Object.keys(profiles).join(", ")})` : ""}`);
+  if (activeProfile && isConvexProfile(activeProfile)) {
+    console.log(`  Convex URL: ${activeProfile.convexUrl}`);
+    console.log(`  API Key:    ${describeApiKey(activeProfile)}`);
+  } else if (activeProfile) {
+    console.log(`  Sink:       ${describeProfile(activeProfile)}`);
+  } else {
+    console.log(`  ❌ Active profile "${active}" is not configured`);
+  }
   console.log(`  Auto Sync:  ${config.autoSync ? "enabled" : "disabled"}`);
   console.log(`  Tool Calls: ${config.syncToolCalls ? "enabled" : "disabled"}`);
   console.log(`  Thinking:   ${config.syncThinking ? "enabled" : "disabled"}`);
+  console.log(`  Outbox:     ${getOutboxDepth()} pending`);
+
+  const policy = resolvePolicy(process.cwd(), config);
+  console.log(`\nProject policy (${process.cwd()}):`);
+  console.log(`  Sync:       ${policy.enabled ? "enabled" : `disabled (${policy.reason})`}`);
+  if (policy.enabled) {
+    console.log(`  Profiles:   ${policy.profiles.join(", ")}`);
+    console.log(`  Tool Calls: ${policy.syncToolCalls ? "enabled" : "disabled"}`);
+    console.log(`  Thinking:   ${policy.syncThinking ? "enabled" : "disabled"}`);
+    console.log(`  Redaction:  ${policy.redaction.patterns?.length ?? 0} custom pattern(s)`);
+  }
+  if (policy.projectFile) {
+    console.log(`  Repo file:  ${policy.projectFile}`);
+  }
+  for (const warning of policy.warnings) {
+    console.log(`  ⚠️  Skipped: ${warning}`);
+  }
 
   console.log("\n⏳ Testing connection...");
-  const result = await testConnection();
-
-  if (result.ok) {
-    console.log("✅ Connected to OpenSync backend");
-  } else {
-    console.log(`❌ Connection failed: ${result.error}`);
+  for (const profileName of policy.enabled ? policy.profiles : [active]) {
+    const result = await testConnection(profileName);
+    if (result.ok) {
+      console.log(`✅ [${profileName}] Connected to OpenSync backend`);
+    } else {
+      console.log(`❌ [${profileName}] Connection failed: ${result.error}`);
+    }
   }
 }
 
@@ -111,69 +343,325 @@ async function verify(): Promise<void> {
   }
 }
 
-async function registerHooks(): Promise<void> {
-  const settingsPath = join(homedir(), ".factory", "settings.json");
-  let settings: Record<string, unknown> = {};
+async function flush(): Promise<void> {
+  const config = getConfig();
+  if (!config) {
+    console.log("❌ Not configured. Run: droid-sync login");
+    process.exit(1);
+  }
 
-  if (existsSync(settingsPath)) {
-    try {
-      settings = JSON.parse(readFileSync(settingsPath, "utf-8"));
-    } catch {
-      settings = {};
+  const pending = getOutboxDepth();
+  if (pending === 0) {
+    console.log("✅ Outbox is empty");
+    return;
+  }
+
+  console.log(`⏳ Flushing ${pending} pending sync(s)...`);
+  let sent = 0;
+  let failed = 0;
+  for (const profileName of Object.keys(listProfiles(config))) {
+    const sink = getSink(profileName);
+    if (!sink || getOutboxDepth(profileName) === 0) continue;
+    const result = await flushOutbox(sink, { profile: profileName, force: true });
+    sent += result.sent;
+    failed += result.failed;
+  }
+
+  const orphaned = getOutboxDepth() - failed;
+  if (failed === 0 && orphaned === 0) {
+    console.log(`✅ Sent ${sent} pending sync(s)`);
+  } else {
+    console.error(`❌ Sent ${sent}, ${failed} still failing (will retry on later hook calls)`);
+    if (orphaned > 0) {
+      console.error(`   ${orphaned} belong to profiles that are no longer configured`);
     }
+    process.exit(1);
   }
+}
 
-  // Merge hooks
-  const hooks: Record<string, unknown[]> =
-    typeof settings.hooks === "object" && settings.hooks !== null && !Array.isArray(settings.hooks)
-      ? (settings.hooks as Record<string, unknown[]>)
-      : {};
-
-  const droidSyncHooks = {
-    Stop: [
-      {
-        hooks: [{ type: "command", command: "droid-sync hook Stop" }],
-      },
-    ],
-    SessionEnd: [
-      {
-        hooks: [{ type: "command", command: "droid-sync hook SessionEnd" }],
-      },
-    ],
-  };
+async function importCommand(args: string[]): Promise<void> {
+  const config = getConfig();
+  if (!config) {
+    console.log("❌ Not configured. Run: droid-sync login");
+    process.exit(1);
+  }
 
-  for (const [event, eventHooks] of Object.entries(droidSyncHooks)) {
-    const existing = Array.isArray(hooks[event]) ? hooks[event] : [];
-    // Check if our hook is already registered
-    const hasOurHook = existing.some((h) => {
-      if (typeof h !== "object" || h === null) return false;
-      const hook = h as { hooks?: unknown };
-      if (!Array.isArray(hook.hooks)) return false;
-      return hook.hooks.some(
-        (hh) => typeof hh === "object" && hh !== null && (hh as { command?: string }).command?.startsWith("droid-sync")
-      );
-    });
-    if (!hasOurHook) {
-      hooks[event] = [...existing, ...eventHooks];
+  const dryRun = hasFlag(args, "dry-run");
+  const path = getPositional(args, ["since", "until", "project", "batch-size", "profile"])[0];
+
+  const batchSizeFlag = getFlag(args, "batch-size");
+  const batchSize = batchSizeFlag === undefined ? undefined : Number(batchSizeFlag);
+  if (batchSize !== undefined && (!/^\d+$/.test(batchSizeFlag!) || batchSize < 1)) {
+    console.error(`❌ Invalid --batch-size: ${batchSizeFlag} (expected a whole number of 1 or more)`);
+    process.exit(1);
+  }
+
+  const profile = getFlag(args, "profile");
+  const profiles = Object.keys(listProfiles(config));
+  if (profile && !profiles.includes(profile)) {
+    console.error(`❌ Profile "${profile}" is not configured (one of: ${profiles.join(", ")})`);
+    process.exit(1);
+  }
+
+  console.log(`📥 Importing sessions from ${path ?? DEFAULT_SESSIONS_DIR}${dryRun ? " (dry run)" : ""}\n`);
+
+  const result = await importSessions(config, {
+    path,
+    since: parseDateFlag(args, "since"),
+    until: parseDateFlag(args, "until"),
+    project: getFlag(args, "project"),
+    dryRun,
+    batchSize,
+    profile,
+  });
+
+  console.log(
+    `\n✅ ${dryRun ? "Would import" : "Imported"} ${result.messages} messages from ${result.imported} sessions ` +
+      `(${result.found} found, ${result.skipped} skipped)`
+  );
+}
+
+async function exportCommand(args: string[]): Promise<void> {
+  const target = getPositional(args, ["format", "output"])[0];
+  if (!target) {
+    console.error("Usage: droid-sync export <sessionId|transcriptPath> [--format md|html|json] [--output file]");
+    process.exit(1);
+  }
+
+  const format = (getFlag(args, "format") ?? "md") as ExportFormat;
+  if (!["md", "html", "json"].includes(format)) {
+    console.error(`❌ Unknown format: ${format} (expected md, html or json)`);
+    process.exit(1);
+  }
+
+  const transcriptPath = resolveTranscriptPath(target);
+  if (!transcriptPath) {
+    console.error(`❌ No transcript found for ${target}`);
+    process.exit(1);
+  }
+
+  const exported = loadSession(transcriptPath, getConfig(), { format, thinking: hasFlag(args, "thinking") });
+  const output = renderSession(exported, format);
+
+  const outputPath = getFlag(args, "output");
+  if (outputPath) {
+    writeFileSync(outputPath, output);
+    console.error(`✅ Exported ${exported.messages.length} messages to ${outputPath}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+function parseScope(args: string[]): HookScope {
+  const scope = getFlag(args, "scope") ?? "user";
+  if (scope !== "user" && scope !== "project") {
+    console.error(`❌ Invalid --scope "${scope}" (use user or project)`);
+    process.exit(1);
+  }
+  return scope;
+}
+
+// Keep the events already chosen for the user scope, or register all of them
+function registerUserHooks(): string {
+  const { registered } = getHookStatus("user");
+  const events = HOOK_EVENTS.filter((event) => registered[event]);
+  return installHooks({ scope: "user", events: events.length > 0 ? events : HOOK_EVENTS }).path;
+}
+
+function printHookStatus(status: HookStatus): void {
+  console.log(`${status.scope === "user" ? "User" : "Project"}: ${status.path}`);
+  if (status.invalid) {
+    console.log(`  ❌ ${status.invalid}; fix it before installing`);
+    return;
+  }
+
+  const registered = Object.keys(status.registered);
+  if (registered.length === 0) {
+    console.log("  Not installed");
+    return;
+  }
+  console.log(`  Registered: ${registered.join(", ")}`);
+  if (status.missing.length > 0) {
+    console.log(`  Not registered: ${status.missing.join(", ")}`);
+  }
+  if (status.duplicates.length > 0) {
+    console.log(`  ⚠️  Duplicates: ${status.duplicates.join(", ")}`);
+  }
+  for (const entry of status.stale) {
+    console.log(`  ⚠️  Stale: ${entry}`);
+  }
+  if (status.duplicates.length > 0 || status.stale.length > 0) {
+    console.log(`  → Repair with: droid-sync hooks install --scope ${status.scope}`);
+  }
+}
+
+async function hooksCommand(args: string[]): Promise<void> {
+  const [subcommand] = args;
+
+  try {
+    switch (subcommand) {
+      case "install": {
+        const events = getFlag(args, "events");
+        const result = installHooks({ scope: parseScope(args), events: events ? parseEvents(events) : undefined });
+        if (!result.changed) {
+          console.log(`✅ Hooks already up to date in ${result.path}`);
+          break;
+        }
+        console.log(`✅ Hooks registered in ${result.path}`);
+        if (result.backupPath) {
+          console.log(`   Backup: ${result.backupPath}`);
+        }
+        break;
+      }
+      case "uninstall": {
+        const result = uninstallHooks({ scope: parseScope(args) });
+        if (result.removed === 0) {
+          console.log(`No droid-sync hooks in ${result.path}`);
+          break;
+        }
+        console.log(`✅ Removed ${result.removed} hook(s) from ${result.path}`);
+        if (result.backupPath) {
+          console.log(`   Backup: ${result.backupPath}`);
+        }
+        break;
+      }
+      case "status":
+      case undefined:
+        printHookStatus(getHookStatus("user"));
+        console.log();
+        printHookStatus(getHookStatus("project"));
+        break;
+      default:
+        console.error(`Unknown hooks command: ${subcommand}`);
+        console.log("Usage: droid-sync hooks install|uninstall|status [--scope user|project] [--events Stop,...]");
+        process.exit(1);
     }
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    process.exit(1);
   }
+}
 
-  settings.hooks = hooks;
+async function doctor(): Promise<void> {
+  console.log("🩺 droid-sync - Doctor\n");
 
-  // Ensure directory exists
-  const { mkdirSync } = await import("fs");
-  mkdirSync(join(homedir(), ".factory"), { recursive: true });
+  const icons = { ok: "✅", warn: "⚠️ ", fail: "❌" };
+  const checks = await runDoctor();
+  for (const check of checks) {
+    console.log(`${icons[check.status]} ${check.name}: ${check.message}`);
+    if (check.fix && check.status !== "ok") {
+      console.log(`   → ${check.fix}`);
+    }
+  }
 
-  writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
+  const failures = checks.filter((c) => c.status === "fail").length;
+  const warnings = checks.filter((c) => c.status === "warn").length;
+  console.log(`\n${failures} problem(s), ${warnings} warning(s)`);
+  if (failures > 0) {
+    process.exit(1);
+  }
 }
 
-async function showConfig(): Promise<void> {
-  const config = getConfig();
-  if (!config) {
-    console.log("Not configured. Run: droid-sync login");
+// Entries shown before --follow starts tailing, unless --lines says otherwise
+const DEFAULT_LOG_LINES = 50;
+
+async function logs(args: string[]): Promise<void> {
+  const session = getFlag(args, "session");
+  const errorsOnly = hasFlag(args, "errors");
+  const json = hasFlag(args, "json");
+  const lines = parseInt(getFlag(args, "lines") ?? String(DEFAULT_LOG_LINES), 10);
+
+  const matches = (entry: LogEntry) =>
+    (!session || entry.sessionId?.startsWith(session)) && (!errorsOnly || entry.level === "error");
+  const print = (entry: LogEntry) => console.log(json ? JSON.stringify(entry) : formatLogEntry(entry));
+
+  const entries = readLog().filter(matches);
+  if (entries.length === 0 && !hasFlag(args, "follow")) {
+    console.log(existsSync(LOG_FILE) ? "No matching log entries" : `No log yet (${LOG_FILE})`);
     return;
   }
-  console.log(JSON.stringify(config, null, 2));
+  entries.slice(Math.max(entries.length - lines, 0)).forEach(print);
+
+  if (hasFlag(args, "follow")) {
+    followLog((entry) => {
+      if (matches(entry)) print(entry);
+    });
+  }
+}
+
+function formatValue(key: string, value: unknown): string {
+  if (CONFIG_FIELDS[key]?.secret && typeof value === "string") return maskKey(value);
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function describeOrigin(field: ResolvedField): string {
+  return field.source ? `${field.origin} (${field.source})` : field.origin;
+}
+
+async function configCommand(args: string[]): Promise<void> {
+  const [subcommand, key, value] = args;
+
+  try {
+    switch (subcommand) {
+      case undefined: {
+        const config = getConfig();
+        if (!config) {
+          console.log("Not configured. Run: droid-sync login");
+          return;
+        }
+        console.log(JSON.stringify(maskSecrets(config), null, 2));
+        break;
+      }
+      case "list": {
+        const showOrigin = hasFlag(args, "show-origin");
+        const fields = resolveFields();
+        const width = Math.max(...fields.map((f) => f.key.length));
+        for (const field of fields) {
+          const line = `${field.key.padEnd(width)}  ${formatValue(field.key, field.value)}`;
+          console.log(showOrigin ? `${line}  [${describeOrigin(field)}]` : line);
+          for (const warning of field.warnings) {
+            console.log(`${"".padEnd(width)}  ⚠️  ${warning}`);
+          }
+        }
+        break;
+      }
+      case "get": {
+        if (!key) throw new Error("Usage: droid-sync config get <key>");
+        getField(key);
+        const field = resolveFields().find((f) => f.key === key);
+        if (!field) {
+          // Not an error: like `config list`, which leaves it out. stdout stays empty for scripts.
+          console.error(`${key} is not set`);
+          break;
+        }
+        console.log(formatValue(key, field.value));
+        break;
+      }
+      case "set": {
+        if (!key || value === undefined) throw new Error("Usage: droid-sync config set <key> <value>");
+        const result = setConfigValue(key, value);
+        console.log(`✅ ${key} = ${formatValue(key, result.value)}`);
+        if (result.overriddenBy) {
+          console.log(`⚠️  ${result.overriddenBy} is set and takes precedence over the config file`);
+        }
+        break;
+      }
+      case "unset": {
+        if (!key) throw new Error("Usage: droid-sync config unset <key>");
+        if (unsetConfigValue(key)) {
+          console.log(`✅ Removed ${key} from ${CONFIG_FILE}`);
+        } else {
+          console.log(`${key} is not set in ${CONFIG_FILE}`);
+        }
+        break;
+      }
+      default:
+        throw new Error(`Unknown config command: ${subcommand} (use get, set, unset or list)`);
+    }
+  } catch (e) {
+    console.error(`❌ ${(e as Error).message}`);
+    process.exit(1);
+  }
 }
 
 function showHelp(): void {
@@ -183,18 +671,43 @@ droid-sync v${VERSION}
 Sync Factory Droid sessions to OpenSync dashboard.
 
 COMMANDS:
-  login         Configure Convex URL and API Key
-  logout        Clear stored credentials
+  login         Configure Convex URL and API Key (--profile <name> for a named profile)
+  logout        Clear stored credentials and remove hooks (--profile <name> for one profile)
+  profile       List profiles, or switch with: profile use <name>
+  hooks         Manage hook registration: hooks install|uninstall|status
+                  --scope user|project  --events Stop,SessionEnd,...
   status        Show authentication and connection status
   verify        Test connectivity to OpenSync
-  config        Show current configuration
+  doctor        Diagnose hooks, config, permissions, API access and pending failures
+  logs          Show the sync log (~/.config/droid-sync/logs)
+                  --session <id>  --errors  --follow  --lines <n>  --json
+  flush         Retry pending syncs from the offline outbox
+  import [path] Import historical sessions (default: ~/.factory/sessions)
+                  --since <date>  --until <date>  --project <name>
+                  --batch-size <n>  --profile <name>  --dry-run
+  export <id|path>
+                Export a session as md, html or json (redacted)
+                  --format md|html|json  --output <file>  --thinking
+  config        Show current configuration (secrets masked)
+  config list   Show every setting; --show-origin adds where each value came from
+  config get|set|unset <key> [value]
+                Read or change one setting, e.g. config set syncThinking true
   version       Show version
   help          Show this help
 
 EXAMPLES:
   droid-sync login
+  droid-sync login --profile work
+  droid-sync profile use work
+  droid-sync hooks install --scope project --events Stop,SessionEnd
   droid-sync status
   droid-sync verify
+  droid-sync doctor
+  droid-sync config set syncToolCalls false
+  droid-sync config list --show-origin
+  droid-sync logs --errors --follow
+  droid-sync import --since 2025-01-01 --project my-app --dry-run
+  droid-sync export 00893aaf-19fa-41d2-8238-13269b9b3ca0 --format html --output session.html
 
 CONFIG FILE:
   ~/.config/droid-sync/config.json
@@ -207,10 +720,13 @@ async function main(): Promise<void> {
 
   switch (command) {
     case "login":
-      await login();
+      await login(args.slice(1));
       break;
     case "logout":
-      await logout();
+      await logout(args.slice(1));
+      break;
+    case "profile":
+      await profileCommand(args.slice(1));
       break;
     case "status":
       await status();
@@ -218,8 +734,26 @@ async function main(): Promise<void> {
     case "verify":
       await verify();
       break;
+    case "hooks":
+      await hooksCommand(args.slice(1));
+      break;
+    case "logs":
+      await logs(args.slice(1));
+      break;
+    case "doctor":
+      await doctor();
+      break;
+    case "flush":
+      await flush();
+      break;
+    case "import":
+      await importCommand(args.slice(1));
+      break;
+    case "export":
+      await exportCommand(args.slice(1));
+      break;
     case "config":
-      await showConfig();
+      await configCommand(args.slice(1));
       break;
     case "hook":
       const eventName = args[1];
@@ -229,6 +763,10 @@ async function main(): Promise<void> {
       }
       await dispatchHook(eventName);
       break;
+    // Internal: background worker spawned by `hook`
+    case "hook-worker":
+      await runHookWorker(args[1]);
+      break;
     case "version":
     case "-v":
     case "--version":
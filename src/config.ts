@@ -1,54 +1,263 @@
 import { homedir } from "os";
 import { join } from "path";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { execSync } from "child_process";
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { ModelPricing } from "./pricing.js";
+import { findProjectConfig } from "./policy.js";
+import { CONFIG_FIELDS, getField, getPath, parseValue, readEnv, setPath, unsetPath, validateValue } from "./schema.js";
 
-export interface Config {
+export interface RedactionConfig {
+  // Extra regex sources whose matches are replaced with [REDACTED]
+  patterns?: string[];
+  // Regex sources for values that must never be redacted
+  allowlist?: string[];
+  // Set to false to only use the custom patterns
+  builtins?: boolean;
+  // Flag long random-looking tokens (default: true)
+  entropy?: boolean;
+}
+
+export interface ImageConfig {
+  // "off" drops images, "metadata" sends type/size/hash only, "full" also uploads the data
+  mode?: "off" | "metadata" | "full";
+  // Decoded bytes; larger images are sent as metadata only
+  maxImageBytes?: number;
+  // Total image bytes uploaded per session (and profile)
+  maxSessionBytes?: number;
+}
+
+export interface HttpConfig {
+  // Per attempt, including connecting through a proxy
+  timeoutMs?: number;
+  // Extra attempts after a network error, timeout, 429 or 5xx
+  retries?: number;
+  // PEM bundle trusted in addition to the built-in roots (e.g. a TLS-inspecting proxy)
+  caFile?: string;
+  // Sent with every request to Convex and webhook destinations
+  headers?: Record<string, string>;
+}
+
+// Limits for one request to a remote destination; larger syncs are split into chunks
+export interface BatchConfig {
+  // Messages per request (0 = no limit)
+  maxMessages?: number;
+  // Serialized bytes per request (0 = no limit); a single larger message is truncated to fit
+  maxBytes?: number;
+}
+
+export interface ProfileRule {
+  // Glob(s) matched like include/exclude
+  match: string | string[];
+  profiles: string[];
+}
+
+export interface ProjectRules {
+  // Globs matched against the session cwd (and its parents); `~` is expanded
+  include?: string[];
+  exclude?: string[];
+  // First matching rule picks the profiles a session is synced to
+  rules?: ProfileRule[];
+}
+
+// Where a Convex API key comes from when it isn't stored in the config file
+export interface ApiKeySource {
+  // Shell command that prints the key, e.g. "pass show opensync/api-key"
+  apiKeyCommand?: string;
+  // File holding just the key; `~` is expanded
+  apiKeyFile?: string;
+}
+
+export interface ConvexProfile extends ApiKeySource {
+  type?: "convex";
+  convexUrl: string;
+  // Empty or left out when apiKeyCommand or apiKeyFile is used
+  apiKey: string;
+}
+
+// Append-only JSON-lines archive
+export interface JsonlProfile {
+  type: "jsonl";
+  path: string;
+}
+
+// Local SQLite database (uses node:sqlite: Node 22.13+, or 22.5+ with --experimental-sqlite)
+export interface SqliteProfile {
+  type: "sqlite";
+  path: string;
+}
+
+export interface WebhookProfile {
+  type: "webhook";
+  url: string;
+  headers?: Record<string, string>;
+  // JSON body with "{{path}}" placeholders; defaults to { event, sessions, messages }
+  template?: unknown;
+}
+
+// A profile is one sync destination
+export type Profile = ConvexProfile | JsonlProfile | SqliteProfile | WebhookProfile;
+
+export interface Config extends ApiKeySource {
+  // Credentials of the "default" profile; empty when only named profiles exist
   convexUrl: string;
   apiKey: string;
+  profiles?: Record<string, Profile>;
+  activeProfile?: string;
   autoSync: boolean;
+  // Run hooks in a detached worker so Droid doesn't wait on the network (default: true)
+  backgroundSync?: boolean;
+  // Hard limit for one hook run, including waiting for the session lock
+  workerTimeoutMs?: number;
   syncToolCalls: boolean;
   syncThinking: boolean;
+  maxToolResultSize?: number;
+  redaction?: RedactionConfig;
+  images?: ImageConfig;
+  http?: HttpConfig;
+  batch?: BatchConfig;
+  // Per-model rates (USD per million tokens) that override the built-in table
+  pricing?: Record<string, ModelPricing>;
+  projects?: ProjectRules;
 }
 
+export { DEFAULT_MAX_TOOL_RESULT_SIZE } from "./schema.js";
+export const DEFAULT_PROFILE = "default";
+
 const CONFIG_DIR = join(homedir(), ".config", "droid-sync");
-const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+export const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+
+// The config file can hold API keys, so only its owner may read it
+const CONFIG_FILE_MODE = 0o600;
+const CONFIG_DIR_MODE = 0o700;
+
+const API_KEY_COMMAND_TIMEOUT_MS = 10000;
+
+// Environment variables and defaults layered over the config file, field by field
+function applyLayers(file: Record<string, unknown>): Config {
+  for (const [key, field] of Object.entries(CONFIG_FIELDS)) {
+    const env = readEnv(key);
+    if (env && env.error === undefined) {
+      setPath(file, key, env.value);
+    } else if (getPath(file, key) === undefined && field.default !== undefined) {
+      setPath(file, key, field.default);
+    }
+  }
+  return file as unknown as Config;
+}
 
 export function getConfig(): Config | null {
-  // Check env vars first
-  const envUrl = process.env.DROID_SYNC_CONVEX_URL;
-  const envKey = process.env.DROID_SYNC_API_KEY;
-
-  if (envUrl && envKey) {
-    return {
-      convexUrl: normalizeUrl(envUrl),
-      apiKey: envKey,
-      autoSync: process.env.DROID_SYNC_AUTO_SYNC !== "false",
-      syncToolCalls: process.env.DROID_SYNC_TOOL_CALLS !== "false",
-      syncThinking: process.env.DROID_SYNC_THINKING === "true",
+  let file: Record<string, unknown> = {};
+  if (existsSync(CONFIG_FILE)) {
+    try {
+      file = JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
+    } catch {
+      // Environment variables alone can still configure the default profile
+    }
+  }
+
+  const config = applyLayers(file);
+  config.convexUrl = config.convexUrl ? normalizeUrl(config.convexUrl) : "";
+  config.apiKey = config.apiKey ?? "";
+  for (const profile of Object.values(config.profiles ?? {})) {
+    if (isConvexProfile(profile)) {
+      profile.convexUrl = normalizeUrl(profile.convexUrl);
+    }
+  }
+  return Object.keys(listProfiles(config)).length > 0 ? config : null;
+}
+
+// All configured profiles, including "default" when top-level credentials are set
+export function listProfiles(config: Config): Record<string, Profile> {
+  const profiles: Record<string, Profile> = {};
+  if (config.convexUrl && hasApiKey(config)) {
+    profiles[DEFAULT_PROFILE] = {
+      convexUrl: config.convexUrl,
+      apiKey: config.apiKey,
+      apiKeyCommand: config.apiKeyCommand,
+      apiKeyFile: config.apiKeyFile,
     };
   }
+  return { ...profiles, ...config.profiles };
+}
+
+export function hasApiKey(source: ApiKeySource & { apiKey?: string }): boolean {
+  return Boolean(source.apiKey || source.apiKeyCommand || source.apiKeyFile);
+}
+
+// Keys fetched from a command or file, so each is read at most once per process
+const resolvedKeys = new Map<string, string>();
+
+/**
+ * The API key of a Convex profile. A key stored in the config wins; otherwise
+ * apiKeyFile is read or apiKeyCommand is run. Throws when the source fails or
+ * yields nothing.
+ */
+export function resolveApiKey(profile: ConvexProfile): string {
+  if (profile.apiKey) return profile.apiKey;
+
+  const cacheKey = profile.apiKeyFile ? `file:${profile.apiKeyFile}` : `command:${profile.apiKeyCommand}`;
+  const cached = resolvedKeys.get(cacheKey);
+  if (cached) return cached;
+
+  let key: string;
+  if (profile.apiKeyFile) {
+    try {
+      key = readFileSync(expandHome(profile.apiKeyFile), "utf-8").trim();
+    } catch (e) {
+      throw new Error(`Can't read apiKeyFile ${profile.apiKeyFile}: ${(e as NodeJS.ErrnoException).code ?? e}`);
+    }
+  } else if (profile.apiKeyCommand) {
+    try {
+      key = execSync(profile.apiKeyCommand, {
+        encoding: "utf-8",
+        timeout: API_KEY_COMMAND_TIMEOUT_MS,
+        stdio: ["ignore", "pipe", "pipe"],
+      }).trim();
+    } catch (e) {
+      const stderr = String((e as { stderr?: unknown }).stderr ?? "").trim().split("\n")[0];
+      throw new Error(`apiKeyCommand failed: ${stderr || (e as Error).message}`);
+    }
+  } else {
+    throw new Error("No API key configured");
+  }
 
-  // Fall back to config file
-  if (!existsSync(CONFIG_FILE)) {
-    return null;
+  if (!key) {
+    throw new Error(`${profile.apiKeyFile ? "apiKeyFile" : "apiKeyCommand"} returned an empty API key`);
   }
+  resolvedKeys.set(cacheKey, key);
+  return key;
+}
 
+export function isConvexProfile(profile: Profile): profile is ConvexProfile {
+  return profile.type === undefined || profile.type === "convex";
+}
+
+export function getProfile(config: Config, name: string): Profile | null {
+  return listProfiles(config)[name] ?? null;
+}
+
+export function getActiveProfileName(config: Config): string {
+  return config.activeProfile ?? DEFAULT_PROFILE;
+}
+
+// Raw contents of the config file, for commands that edit part of it
+export function readConfigFile(): Partial<Config> {
+  if (!existsSync(CONFIG_FILE)) return {};
   try {
-    const data = readFileSync(CONFIG_FILE, "utf-8");
-    const config = JSON.parse(data) as Config;
-    config.convexUrl = normalizeUrl(config.convexUrl);
-    return config;
+    return JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
   } catch {
-    return null;
+    return {};
   }
 }
 
-export function setConfig(config: Config): void {
+export function setConfig(config: Partial<Config>): void {
   try {
     if (!existsSync(CONFIG_DIR)) {
-      mkdirSync(CONFIG_DIR, { recursive: true });
+      mkdirSync(CONFIG_DIR, { recursive: true, mode: CONFIG_DIR_MODE });
     }
-    writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
+    writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), { mode: CONFIG_FILE_MODE });
+    // The mode option only applies when the file is created
+    chmodSync(CONFIG_FILE, CONFIG_FILE_MODE);
   } catch (e) {
     console.error("Error saving config:", e);
   }
@@ -58,12 +267,98 @@ export function clearConfig(): void {
   try {
     if (existsSync(CONFIG_FILE)) {
       writeFileSync(CONFIG_FILE, "{}");
+      chmodSync(CONFIG_FILE, CONFIG_FILE_MODE);
     }
   } catch (e) {
     console.error("Error clearing config:", e);
   }
 }
 
+export interface ResolvedField {
+  key: string;
+  value: unknown;
+  origin: "default" | "file" | "project" | "env";
+  // Config file, project file or environment variable the value came from
+  source?: string;
+  // Problems with a layer that was skipped or a value that doesn't validate
+  warnings: string[];
+}
+
+// Raw config file; unlike readConfigFile, a broken file is an error rather than empty
+function readFileStrict(): Record<string, unknown> {
+  if (!existsSync(CONFIG_FILE)) return {};
+  try {
+    return JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
+  } catch (e) {
+    throw new Error(`${CONFIG_FILE} is not valid JSON: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Effective value of every field and the layer it came from, in order of
+ * precedence: environment, project file (only turning fields off), config
+ * file, default. Fields with no value in any layer are left out.
+ */
+export function resolveFields(cwd = process.cwd()): ResolvedField[] {
+  const file = readFileStrict();
+  const project = findProjectConfig(cwd);
+  const resolved: ResolvedField[] = [];
+
+  for (const [key, field] of Object.entries(CONFIG_FIELDS)) {
+    const warnings: string[] = [];
+    let result: Omit<ResolvedField, "key" | "warnings"> | undefined;
+
+    const fileValue = getPath(file, key);
+    if (fileValue !== undefined) {
+      try {
+        validateValue(key, fileValue);
+      } catch (e) {
+        warnings.push(`invalid value in config file: ${(e as Error).message}`);
+      }
+      result = { value: fileValue, origin: "file", source: CONFIG_FILE };
+    } else if (field.default !== undefined) {
+      result = { value: field.default, origin: "default" };
+    }
+
+    const projectValue = project && field.project ? getPath(project.config as Record<string, unknown>, key) : undefined;
+    if (projectValue === false && result?.value !== false) {
+      result = { value: false, origin: "project", source: project!.path };
+    }
+
+    const env = readEnv(key);
+    if (env?.error) {
+      warnings.push(`${env.variable} ignored: ${env.error}`);
+    } else if (env) {
+      result = { value: env.value, origin: "env", source: env.variable };
+    }
+
+    if (result) resolved.push({ key, ...result, warnings });
+  }
+  return resolved;
+}
+
+// Validate and store a value in the config file; returns the variable that overrides it, if any
+export function setConfigValue(key: string, raw: string): { value: unknown; overriddenBy?: string } {
+  const value = parseValue(key, raw);
+  const file = readFileStrict();
+  setPath(file, key, value);
+  setConfig(file);
+  const env = readEnv(key);
+  return { value, overriddenBy: env && env.error === undefined ? env.variable : undefined };
+}
+
+export function unsetConfigValue(key: string): boolean {
+  getField(key);
+  const file = readFileStrict();
+  const removed = unsetPath(file, key);
+  if (removed) setConfig(file);
+  return removed;
+}
+
+export function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
 function normalizeUrl(url: string): string {
   // Convert .convex.cloud to .convex.site for API calls
   return url.replace(/\.convex\.cloud$/, ".convex.site");
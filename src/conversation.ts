@@ -0,0 +1,92 @@
+import { ConversationSummary, TranscriptMessage } from "./types.js";
+
+interface ConversationNode {
+  parentId?: string;
+  // Depth from the root of the conversation
+  sequence: number;
+  // Forks get a new branch number; the first child stays on its parent's branch
+  branch: number;
+  children: number;
+  // IDs this message was synced under (text message first, then its tool calls)
+  sentIds?: string[];
+}
+
+// Kept in the sync cursor so incremental parses still see the whole tree
+export interface ConversationTree {
+  nodes: Record<string, ConversationNode>;
+  branchCount: number;
+  // Last message appended: the tip of the conversation the user ended up with
+  leafId?: string;
+}
+
+export function emptyTree(): ConversationTree {
+  return { nodes: {}, branchCount: 1 };
+}
+
+export function addMessage(tree: ConversationTree, msg: TranscriptMessage): void {
+  if (tree.nodes[msg.id]) return;
+
+  // Older transcripts have no parentId; treat them as a linear conversation
+  const parentId = msg.parentId ?? tree.leafId;
+  const parent = parentId ? tree.nodes[parentId] : undefined;
+
+  let branch = 0;
+  if (parent) {
+    branch = parent.children === 0 ? parent.branch : tree.branchCount++;
+    parent.children++;
+  }
+
+  tree.nodes[msg.id] = {
+    parentId: parent ? parentId : undefined,
+    sequence: parent ? parent.sequence + 1 : 0,
+    branch,
+    children: 0,
+  };
+  tree.leafId = msg.id;
+}
+
+// Messages on the path from the root to the latest message
+export function activePath(tree: ConversationTree): Set<string> {
+  const path = new Set<string>();
+  let id = tree.leafId;
+  while (id && !path.has(id)) {
+    path.add(id);
+    id = tree.nodes[id]?.parentId;
+  }
+  return path;
+}
+
+/**
+ * The synced ID a message's children should point at: the last ID synced for
+ * the nearest ancestor that produced a message. Transcript entries that only
+ * carry tool results are folded into the tool call and never synced themselves.
+ */
+export function syncedParentId(tree: ConversationTree, id: string): string | undefined {
+  let current = tree.nodes[id]?.parentId;
+  while (current) {
+    const node = tree.nodes[current];
+    if (!node) return undefined;
+    if (node.sentIds && node.sentIds.length > 0) return node.sentIds[node.sentIds.length - 1];
+    current = node.parentId;
+  }
+  return undefined;
+}
+
+export function summarizeConversation(tree: ConversationTree): ConversationSummary {
+  const path = activePath(tree);
+  const abandonedMessageIds: string[] = [];
+  let branchPoints = 0;
+
+  for (const [id, node] of Object.entries(tree.nodes)) {
+    if (node.children > 1) branchPoints++;
+    if (!path.has(id)) abandonedMessageIds.push(...(node.sentIds ?? []));
+  }
+
+  const leaf = tree.leafId ? tree.nodes[tree.leafId] : undefined;
+  return {
+    leafMessageId: leaf?.sentIds?.at(-1) ?? (tree.leafId ? syncedParentId(tree, tree.leafId) : undefined),
+    branchCount: tree.branchCount,
+    branchPoints,
+    abandonedMessageIds,
+  };
+}
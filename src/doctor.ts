@@ -0,0 +1,355 @@
+import { accessSync, constants, existsSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { delimiter, join } from "path";
+import { getSink } from "./sinks.js";
+import {
+  CONFIG_FILE,
+  getConfig,
+  listProfiles,
+  getActiveProfileName,
+  hasApiKey,
+  isConvexProfile,
+  Profile,
+  resolveFields,
+} from "./config.js";
+import { HOOK_EVENTS } from "./hooks.js";
+import { resolvePolicy } from "./policy.js";
+import { getHookStatus } from "./settings.js";
+import { loadOutbox } from "./outbox.js";
+import { listSyncStates, SYNC_STATE_DIR } from "./transcript.js";
+
+export interface DoctorCheck {
+  name: string;
+  status: "ok" | "warn" | "fail";
+  message: string;
+  fix?: string;
+}
+
+const SINK_TYPES = new Set(["convex", "jsonl", "sqlite", "webhook"]);
+
+// How many recently synced sessions to list per profile
+const RECENT_SESSIONS = 3;
+
+function findOnPath(binary: string): string | undefined {
+  for (const dir of (process.env.PATH ?? "").split(delimiter)) {
+    if (!dir) continue;
+    const candidate = join(dir, binary);
+    try {
+      accessSync(candidate, constants.X_OK);
+      return candidate;
+    } catch {
+      // Not here
+    }
+  }
+  return undefined;
+}
+
+function checkHooks(): DoctorCheck[] {
+  const checks: DoctorCheck[] = [];
+  const statuses = [getHookStatus("user"), getHookStatus("project")];
+
+  const registered = new Map<string, string[]>();
+  for (const status of statuses) {
+    if (status.invalid) {
+      checks.push({
+        name: `Hooks (${status.scope})`,
+        status: "fail",
+        message: `${status.invalid}, so Droid ignores its hooks`,
+        fix: `Fix the JSON syntax in ${status.path}`,
+      });
+    }
+    for (const [event, commands] of Object.entries(status.registered)) {
+      registered.set(event, [...(registered.get(event) ?? []), ...commands]);
+    }
+  }
+
+  const missing = HOOK_EVENTS.filter((event) => !registered.has(event));
+  if (!registered.has("Stop")) {
+    checks.push({
+      name: "Hooks",
+      status: "fail",
+      message: "The Stop hook is not registered; nothing will sync",
+      fix: "Run: droid-sync hooks install",
+    });
+  } else if (missing.length > 0) {
+    checks.push({
+      name: "Hooks",
+      status: "warn",
+      message: `Not registered: ${missing.join(", ")} (sync only happens on Stop for these)`,
+      fix: "Run: droid-sync hooks install to register all events",
+    });
+  } else {
+    checks.push({ name: "Hooks", status: "ok", message: `All ${HOOK_EVENTS.length} events registered` });
+  }
+
+  // Also counts an event registered in both the user and the project file
+  const duplicates = [...registered].filter(([, commands]) => commands.length > 1).map(([event]) => event);
+  if (duplicates.length > 0) {
+    checks.push({
+      name: "Hooks",
+      status: "warn",
+      message: `Registered more than once: ${duplicates.join(", ")} (each turn syncs twice)`,
+      fix: "Run: droid-sync hooks status, then hooks uninstall for the scope you don't want",
+    });
+  }
+
+  for (const status of statuses.filter((s) => s.stale.length > 0)) {
+    checks.push({
+      name: `Hooks (${status.scope})`,
+      status: "warn",
+      message: `Outdated entries: ${status.stale.join("; ")}`,
+      fix: `Run: droid-sync hooks install --scope ${status.scope}`,
+    });
+  }
+
+  const binary = findOnPath("droid-sync");
+  checks.push(
+    binary
+      ? { name: "Binary", status: "ok", message: `droid-sync found at ${binary}` }
+      : {
+          name: "Binary",
+          status: "fail",
+          message: "droid-sync is not on PATH, so Droid can't run the hooks",
+          fix: "Run: npm install -g droid-sync (or add its bin directory to PATH)",
+        }
+  );
+
+  return checks;
+}
+
+function checkProfile(profile: Profile): string | undefined {
+  const type = profile.type ?? "convex";
+  if (!SINK_TYPES.has(type)) return `unknown type "${type}"`;
+  if (isConvexProfile(profile)) {
+    if (!hasApiKey(profile)) return "missing apiKey (or apiKeyCommand/apiKeyFile)";
+    try {
+      new URL(profile.convexUrl);
+    } catch {
+      return `invalid convexUrl "${profile.convexUrl}"`;
+    }
+  } else if (profile.type === "webhook") {
+    try {
+      new URL(profile.url);
+    } catch {
+      return `invalid url "${profile.url}"`;
+    }
+  } else if (!profile.path) {
+    return "missing path";
+  }
+  return undefined;
+}
+
+function checkConfig(): DoctorCheck[] {
+  const checks: DoctorCheck[] = [];
+
+  if (existsSync(CONFIG_FILE)) {
+    try {
+      JSON.parse(readFileSync(CONFIG_FILE, "utf-8"));
+    } catch (e) {
+      return [
+        {
+          name: "Config",
+          status: "fail",
+          message: `${CONFIG_FILE} is not valid JSON: ${(e as Error).message}`,
+          fix: "Fix the JSON syntax, or run: droid-sync login",
+        },
+      ];
+    }
+
+    const mode = statSync(CONFIG_FILE).mode & 0o777;
+    if (mode & 0o077) {
+      checks.push({
+        name: "Config permissions",
+        status: "warn",
+        message: `${CONFIG_FILE} is readable by other users (mode ${mode.toString(8)}) and holds API keys`,
+        fix: `Run: chmod 600 ${CONFIG_FILE}`,
+      });
+    }
+  }
+
+  const config = getConfig();
+  if (!config) {
+    checks.push({
+      name: "Config",
+      status: "fail",
+      message: "No credentials configured",
+      fix: "Run: droid-sync login",
+    });
+    return checks;
+  }
+
+  const profiles = listProfiles(config);
+  const problems = Object.entries(profiles)
+    .map(([name, profile]) => [name, checkProfile(profile)] as const)
+    .filter(([, problem]) => problem);
+  for (const [name, problem] of problems) {
+    checks.push({
+      name: "Config",
+      status: "fail",
+      message: `Profile "${name}": ${problem}`,
+      fix: `Run: droid-sync login --profile ${name} (or edit ${CONFIG_FILE})`,
+    });
+  }
+
+  const active = getActiveProfileName(config);
+  if (!profiles[active]) {
+    checks.push({
+      name: "Config",
+      status: "fail",
+      message: `Active profile "${active}" does not exist`,
+      fix: `Run: droid-sync profile use <name> (one of: ${Object.keys(profiles).join(", ")})`,
+    });
+  }
+
+  if (!config.autoSync) {
+    checks.push({
+      name: "Config",
+      status: "warn",
+      message: "autoSync is off, so hooks do nothing",
+      fix: "Run: droid-sync config set autoSync true",
+    });
+  }
+
+  for (const field of resolveFields()) {
+    for (const warning of field.warnings) {
+      checks.push({
+        name: "Config",
+        status: "warn",
+        message: `${field.key}: ${warning}`,
+        fix: `Run: droid-sync config set ${field.key} <value> (or fix the environment variable)`,
+      });
+    }
+  }
+
+  // Skipped by every hook; the project file checked is the one for the current directory
+  for (const warning of resolvePolicy(process.cwd(), config).warnings) {
+    checks.push({
+      name: "Redaction",
+      status: "warn",
+      message: `Skipped: ${warning}`,
+      fix: "Fix or remove the pattern",
+    });
+  }
+
+  if (!checks.some((c) => c.name === "Config")) {
+    checks.push({ name: "Config", status: "ok", message: `${Object.keys(profiles).length} profile(s), active: ${active}` });
+  }
+  return checks;
+}
+
+function checkStateDir(): DoctorCheck {
+  const probe = join(SYNC_STATE_DIR, `.doctor-${process.pid}`);
+  try {
+    mkdirSync(SYNC_STATE_DIR, { recursive: true });
+    writeFileSync(probe, "");
+    unlinkSync(probe);
+    return { name: "State directory", status: "ok", message: `${SYNC_STATE_DIR} is writable` };
+  } catch (e) {
+    return {
+      name: "State directory",
+      status: "fail",
+      message: `Can't write to ${SYNC_STATE_DIR}: ${(e as Error).message}`,
+      fix: `Check the owner and permissions of ${SYNC_STATE_DIR}`,
+    };
+  }
+}
+
+async function checkDestinations(): Promise<DoctorCheck[]> {
+  const config = getConfig();
+  if (!config) return [];
+
+  const checks: DoctorCheck[] = [];
+  for (const [name, profile] of Object.entries(listProfiles(config))) {
+    const sink = getSink(name);
+    if (!sink) continue;
+    const remote = isConvexProfile(profile) || profile.type === "webhook";
+
+    try {
+      if (sink.verify) {
+        await sink.verify();
+      } else if (!(await sink.testConnection())) {
+        throw new Error("not reachable");
+      }
+      checks.push({
+        name: `Destination ${name}`,
+        status: "ok",
+        message: sink.verify ? "Accepts writes" : "Reachable",
+      });
+    } catch (e) {
+      const message = (e as Error).message;
+      const auth = /\b(401|403)\b/.test(message);
+      const keySource = /apiKey(Command|File)/.test(message);
+      checks.push({
+        name: `Destination ${name}`,
+        status: "fail",
+        message,
+        fix: auth
+          ? `The API key was rejected. Run: droid-sync login${name === "default" ? "" : ` --profile ${name}`}`
+          : keySource
+            ? `Check apiKeyCommand/apiKeyFile of profile "${name}" in ${CONFIG_FILE}`
+            : remote
+              ? "Check the URL and your network connection, then run: droid-sync doctor"
+              : "Check that the path is writable and the Node.js version supports this sink",
+      });
+    }
+  }
+  return checks;
+}
+
+function checkSyncHistory(): DoctorCheck[] {
+  const config = getConfig();
+  if (!config) return [];
+
+  const checks: DoctorCheck[] = [];
+  for (const name of Object.keys(listProfiles(config))) {
+    const recent = listSyncStates(name)
+      .filter((s) => s.lastSyncTime)
+      .slice(0, RECENT_SESSIONS);
+    checks.push(
+      recent.length > 0
+        ? {
+            name: `Last syncs ${name}`,
+            status: "ok",
+            message: recent.map((s) => `${s.sessionId} at ${s.lastSyncTime} (${s.messages} messages)`).join("; "),
+          }
+        : {
+            name: `Last syncs ${name}`,
+            status: "warn",
+            message: "No session has been synced yet",
+            fix: "Finish a Droid turn, or run: droid-sync import",
+          }
+    );
+  }
+  return checks;
+}
+
+function checkOutbox(): DoctorCheck {
+  const entries = loadOutbox();
+  if (entries.length === 0) {
+    return { name: "Outbox", status: "ok", message: "No pending failures" };
+  }
+
+  const latest = entries[entries.length - 1];
+  // 413 Payload Too Large: the destination accepts less per request than batch.maxBytes
+  const tooLarge = /\b413\b/.test(latest.lastError ?? "");
+  return {
+    name: "Outbox",
+    status: "warn",
+    message:
+      `${entries.length} pending (oldest ${entries[0].createdAt}, ${latest.attempts} attempt(s));` +
+      ` last error: ${latest.lastError ?? "unknown"}`,
+    fix: tooLarge
+      ? "Run: droid-sync config set batch.maxBytes <smaller value>, then droid-sync flush"
+      : "Fix the error above, then run: droid-sync flush",
+  };
+}
+
+export async function runDoctor(): Promise<DoctorCheck[]> {
+  return [
+    ...checkHooks(),
+    ...checkConfig(),
+    checkStateDir(),
+    ...(await checkDestinations()),
+    ...checkSyncHistory(),
+    checkOutbox(),
+  ];
+}
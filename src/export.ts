@@ -0,0 +1,261 @@
+import { existsSync } from "fs";
+import { basename } from "path";
+import { Config } from "./config.js";
+import { buildSessionData } from "./hooks.js";
+import { getLifecycle } from "./lifecycle.js";
+import { DEFAULT_SESSIONS_DIR, findTranscripts } from "./import.js";
+import { resolvePolicy } from "./policy.js";
+import { Redactor } from "./redact.js";
+import { parseTranscript, parseSessionSettings, extractNewMessages } from "./transcript.js";
+import { SessionData, MessageData, MessageImage } from "./types.js";
+
+export type ExportFormat = "md" | "html" | "json";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  thinking?: boolean;
+}
+
+export interface ExportedSession {
+  session: SessionData;
+  messages: MessageData[];
+}
+
+// Accept either a transcript path or a session ID to look up in the sessions directory
+export function resolveTranscriptPath(target: string): string | null {
+  if (target.endsWith(".jsonl") && existsSync(target)) return target;
+  return findTranscripts(DEFAULT_SESSIONS_DIR).find((file) => basename(file, ".jsonl") === target) ?? null;
+}
+
+export function loadSession(transcriptPath: string, config: Config | null, opts: ExportOptions): ExportedSession {
+  const sessionId = basename(transcriptPath, ".jsonl");
+  const transcript = parseTranscript(transcriptPath);
+  const cwd = transcript.sessionStart?.cwd;
+  const policy = config ? resolvePolicy(cwd, config) : undefined;
+  const redactor = new Redactor(policy?.redaction ?? config?.redaction);
+
+  const { newMessages } = extractNewMessages({
+    sessionId,
+    transcript,
+    syncToolCalls: true,
+    syncThinking: opts.thinking ?? false,
+    // Exports are for reading, so keep full tool output
+    maxToolResultSize: 0,
+    redactor,
+    images: config?.images,
+    ignoreSyncState: true,
+  });
+
+  const session = buildSessionData({
+    sessionId,
+    cwd,
+    transcript,
+    settings: parseSessionSettings(transcriptPath),
+    pricing: config?.pricing,
+    redactor,
+    lifecycle: getLifecycle(sessionId),
+  });
+
+  return { session, messages: newMessages };
+}
+
+function formatDuration(ms: number | undefined): string | undefined {
+  if (ms === undefined) return undefined;
+  const seconds = Math.round(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function metadataRows(session: SessionData): [string, string][] {
+  const usage = session.tokenUsage;
+  const rows: [string, string | undefined][] = [
+    ["Session", session.sessionId],
+    ["Project", session.projectPath],
+    ["Model", session.model],
+    [
+      "Status",
+      session.lifecycle
+        ? `${session.lifecycle.status}${session.lifecycle.endReason ? ` (${session.lifecycle.endReason})` : ""}`
+        : undefined,
+    ],
+    ["Continues", session.lifecycle?.predecessorSessionId],
+    ["Branch", session.gitBranch],
+    ["Remote", session.workspace?.remoteUrl],
+    ["Messages", session.messageCount?.toString()],
+    ["Tool calls", session.toolCallCount?.toString()],
+    [
+      "Branches",
+      session.conversation && session.conversation.branchCount > 1
+        ? `${session.conversation.branchCount} (${session.conversation.abandonedMessageIds.length} discarded messages)`
+        : undefined,
+    ],
+    [
+      "Files",
+      session.activity
+        ? `${session.activity.filesRead.length} read / ${session.activity.filesCreated.length} created / ` +
+          `${session.activity.filesEdited.length} edited / ${session.activity.filesDeleted.length} deleted`
+        : undefined,
+    ],
+    ["Duration", formatDuration(session.durationMs)],
+    [
+      "Tokens",
+      usage
+        ? `${usage.input} in / ${usage.output} out / ${usage.cacheRead ?? 0} cache read / ` +
+          `${usage.cacheCreation ?? 0} cache write / ${usage.thinking ?? 0} thinking`
+        : undefined,
+    ],
+    ["Cost", session.costEstimate !== undefined ? `$${session.costEstimate.toFixed(4)}` : undefined],
+  ];
+  return rows.filter((row): row is [string, string] => row[1] !== undefined);
+}
+
+function describeImage(image: MessageImage): string {
+  const size = image.width && image.height ? ` ${image.width}×${image.height}` : "";
+  return `${image.mediaType}${size}, ${(image.byteSize / 1024).toFixed(1)} KB`;
+}
+
+function fence(text: string, lang = ""): string {
+  // Use a fence longer than any backtick run inside the text
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${lang}\n${text}\n${marker}`;
+}
+
+// Turns left behind by an edit or retry; the session summary is authoritative
+// since it also covers messages abandoned after they were extracted
+function isAbandoned(message: MessageData, abandoned: Set<string>): boolean {
+  return message.abandoned === true || abandoned.has(message.messageId);
+}
+
+export function renderMarkdown({ session, messages }: ExportedSession): string {
+  const abandoned = new Set(session.conversation?.abandonedMessageIds);
+  const out: string[] = [`# ${session.title ?? session.sessionId}`, "", "| Field | Value |", "| --- | --- |"];
+  for (const [field, value] of metadataRows(session)) {
+    out.push(`| ${field} | ${value.replace(/\|/g, "\\|")} |`);
+  }
+
+  for (const m of messages) {
+    const who = m.role === "user" ? "User" : "Assistant";
+    const discarded = isAbandoned(m, abandoned) ? " · _discarded_" : "";
+    const heading = `${m.toolName ? `Tool: ${m.toolName}` : who}${m.timestamp ? ` · ${m.timestamp}` : ""}`;
+    out.push("", `## ${heading}${discarded}`, "");
+
+    if (m.thinkingContent) {
+      out.push("<details><summary>Thinking</summary>", "", m.thinkingContent, "", "</details>", "");
+    }
+    if (m.content) {
+      out.push(m.content, "");
+    }
+    for (const image of m.images ?? []) {
+      out.push(`_Image: ${describeImage(image)}_`, "");
+    }
+    if (m.toolName) {
+      out.push(fence(JSON.stringify(m.toolArgs ?? {}, null, 2), "json"), "");
+      if (m.toolResult !== undefined) {
+        out.push("**Result:**", "", fence(m.toolResult), "");
+      }
+    }
+  }
+
+  return out.join("\n").trimEnd() + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Transcripts aren't trusted: only well-formed image data URIs go into a src attribute
+function isInlineImage(image: MessageImage): image is MessageImage & { data: string } {
+  return (
+    image.data !== undefined &&
+    /^image\/[\w.+-]+$/.test(image.mediaType) &&
+    /^[A-Za-z0-9+/]*={0,2}$/.test(image.data)
+  );
+}
+
+const HTML_STYLE = `
+  body { font: 14px/1.5 -apple-system, system-ui, sans-serif; max-width: 900px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  td { border: 1px solid #d0d7de; padding: 4px 10px; }
+  .msg { border-left: 4px solid #d0d7de; padding: 0.25rem 1rem; margin: 1rem 0; }
+  .user { border-color: #0969da; }
+  .assistant { border-color: #8250df; }
+  .tool { border-color: #9a6700; }
+  .abandoned { opacity: 0.5; border-style: dashed; }
+  .meta { color: #656d76; font-size: 12px; }
+  img { max-width: 100%; }
+  pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+  .text { white-space: pre-wrap; }
+`;
+
+export function renderHtml({ session, messages }: ExportedSession): string {
+  const abandoned = new Set(session.conversation?.abandonedMessageIds);
+  const title = escapeHtml(session.title ?? session.sessionId);
+  const rows = metadataRows(session)
+    .map(([field, value]) => `<tr><td>${escapeHtml(field)}</td><td>${escapeHtml(value)}</td></tr>`)
+    .join("\n");
+
+  const body = messages
+    .map((m) => {
+      const discarded = isAbandoned(m, abandoned);
+      const kind = `${m.toolName ? "tool" : m.role}${discarded ? " abandoned" : ""}`;
+      const heading = m.toolName ? `Tool: ${m.toolName}` : m.role === "user" ? "User" : "Assistant";
+      const parts = [
+        `<div class="meta">${escapeHtml(heading)}${m.timestamp ? ` · ${escapeHtml(m.timestamp)}` : ""}` +
+          `${discarded ? " · discarded" : ""}</div>`,
+      ];
+      if (m.thinkingContent) {
+        parts.push(`<details><summary>Thinking</summary><div class="text">${escapeHtml(m.thinkingContent)}</div></details>`);
+      }
+      if (m.content) {
+        parts.push(`<div class="text">${escapeHtml(m.content)}</div>`);
+      }
+      for (const image of m.images ?? []) {
+        parts.push(
+          isInlineImage(image)
+            ? `<img src="data:${image.mediaType};base64,${image.data}" alt="${escapeHtml(describeImage(image))}">`
+            : `<div class="meta">Image: ${escapeHtml(describeImage(image))}</div>`
+        );
+      }
+      if (m.toolName) {
+        parts.push(`<pre>${escapeHtml(JSON.stringify(m.toolArgs ?? {}, null, 2))}</pre>`);
+        if (m.toolResult !== undefined) {
+          parts.push(`<details open><summary>Result</summary><pre>${escapeHtml(m.toolResult)}</pre></details>`);
+        }
+      }
+      return `<div class="msg ${kind}">\n${parts.join("\n")}\n</div>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<table>
+${rows}
+</table>
+${body}
+</body>
+</html>
+`;
+}
+
+export function renderSession(exported: ExportedSession, format: ExportFormat): string {
+  switch (format) {
+    case "md":
+      return renderMarkdown(exported);
+    case "html":
+      return renderHtml(exported);
+    case "json":
+      return JSON.stringify(exported, null, 2) + "\n";
+  }
+}
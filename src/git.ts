@@ -0,0 +1,182 @@
+import { execFileSync } from "child_process";
+import { copyFileSync, existsSync, mkdirSync, readFileSync, realpathSync, rmSync, writeFileSync } from "fs";
+import { homedir, tmpdir } from "os";
+import { join, relative, resolve } from "path";
+import { WorkspaceInfo } from "./types.js";
+
+// Session-level (not per-profile) record of where the session started
+const WORKSPACE_STATE_DIR = join(homedir(), ".config", "droid-sync", "state", "workspace");
+
+// Cap on commit SHAs sent per session; long sessions still get an accurate count
+const MAX_COMMITS = 50;
+
+interface WorkspaceState {
+  startCommit?: string;
+  // Working tree at the start, uncommitted edits and untracked files included
+  startTree?: string;
+  startedAt: string;
+}
+
+function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): string | undefined {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      env: env && { ...process.env, ...env },
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+      timeout: 5000,
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Turn any remote form (https with credentials, scp-style ssh, ssh://) into
+ * `https://host/owner/repo` so sessions from different clones line up.
+ */
+export function normalizeRemoteUrl(remote: string): string {
+  let url = remote.trim();
+
+  // scp-style: git@github.com:owner/repo.git
+  const scp = url.match(/^(?:[^@/]+@)?([^:/]+):(?!\/)(.+)$/);
+  if (scp) {
+    url = `https://${scp[1]}/${scp[2]}`;
+  }
+
+  try {
+    const parsed = new URL(url);
+    // Rebuilt from host and path so credentials embedded in the remote are never sent
+    const web = parsed.protocol === "https:" || parsed.protocol === "http:";
+    url = web
+      ? `${parsed.protocol}//${parsed.host}${parsed.pathname}`
+      : `https://${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    // Local paths and other non-URL remotes are kept as-is (minus any user@ prefix)
+    url = url.replace(/^[^@/]+@/, "");
+  }
+
+  return url.replace(/\/+$/, "").replace(/\.git$/, "");
+}
+
+function parseShortStat(stat: string | undefined): WorkspaceInfo["diffStat"] {
+  if (stat === undefined) return undefined;
+  const count = (re: RegExp) => Number(stat.match(re)?.[1] ?? 0);
+  return {
+    filesChanged: count(/(\d+) files? changed/),
+    insertions: count(/(\d+) insertions?/),
+    deletions: count(/(\d+) deletions?/),
+  };
+}
+
+/**
+ * Write the working tree as it is now, uncommitted edits and untracked (not
+ * ignored) files included, to a tree object and return its hash. Staged in a
+ * throwaway copy of the index so the real one is never touched.
+ */
+function snapshotTree(cwd: string): string | undefined {
+  const index = git(cwd, ["rev-parse", "--git-path", "index"]);
+  if (!index) return undefined;
+
+  const env = { GIT_INDEX_FILE: join(tmpdir(), `droid-sync-index-${process.pid}`) };
+  try {
+    const indexFile = resolve(cwd, index);
+    // A repo with nothing staged yet has no index file
+    if (existsSync(indexFile)) copyFileSync(indexFile, env.GIT_INDEX_FILE);
+    if (git(cwd, ["add", "--all", "--", ":/"], env) === undefined) return undefined;
+    return git(cwd, ["write-tree"], env);
+  } catch {
+    return undefined;
+  } finally {
+    rmSync(env.GIT_INDEX_FILE, { force: true });
+  }
+}
+
+// `git diff --shortstat` of the working tree as it is now against `base`
+function diffStat(cwd: string, base: string): WorkspaceInfo["diffStat"] {
+  const current = snapshotTree(cwd);
+  if (!current) return undefined;
+  return parseShortStat(git(cwd, ["diff", "--shortstat", base, current]));
+}
+
+function getWorkspaceStateFile(sessionId: string): string {
+  return join(WORKSPACE_STATE_DIR, `${sessionId}.json`);
+}
+
+function loadWorkspaceState(sessionId: string): WorkspaceState | null {
+  const file = getWorkspaceStateFile(sessionId);
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function saveWorkspaceState(sessionId: string, state: WorkspaceState): void {
+  if (!existsSync(WORKSPACE_STATE_DIR)) {
+    mkdirSync(WORKSPACE_STATE_DIR, { recursive: true });
+  }
+  writeFileSync(getWorkspaceStateFile(sessionId), JSON.stringify(state, null, 2));
+}
+
+/**
+ * Snapshot the git state of `cwd` for a session. The first call for a session
+ * records HEAD as the start commit (SessionStart, or the first Stop if that
+ * hook isn't installed); later calls diff against it.
+ */
+export function getWorkspaceInfo(cwd: string | undefined, sessionId?: string): WorkspaceInfo | undefined {
+  if (!cwd || !existsSync(cwd)) return undefined;
+
+  const repoRoot = git(cwd, ["rev-parse", "--show-toplevel"]);
+  if (!repoRoot) return undefined;
+
+  const head = git(cwd, ["rev-parse", "HEAD"]);
+  const branch = git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  const remote = git(cwd, ["config", "--get", "remote.origin.url"]);
+  const status = git(cwd, ["status", "--porcelain"]);
+
+  let startCommit = head;
+  let startTree: string | undefined;
+  if (sessionId) {
+    const state = loadWorkspaceState(sessionId);
+    if (state) {
+      startCommit = state.startCommit;
+      startTree = state.startTree;
+    } else {
+      // Edits already in the working tree belong to the start, not to the session
+      startTree = snapshotTree(cwd);
+      saveWorkspaceState(sessionId, { startCommit: head, startTree, startedAt: new Date().toISOString() });
+    }
+  }
+
+  const info: WorkspaceInfo = {
+    repoRoot,
+    // git resolves symlinks in the root (e.g. /tmp on macOS), so compare real paths
+    relativeCwd: relative(repoRoot, realpathSync(cwd)) || ".",
+    branch: branch && branch !== "HEAD" ? branch : undefined,
+    remoteUrl: remote ? normalizeRemoteUrl(remote) : undefined,
+    startCommit,
+    headCommit: head,
+    dirty: status === undefined ? undefined : status.length > 0,
+  };
+
+  // Without a start snapshot (e.g. git add timed out), diff against the start commit
+  const base = startTree ?? startCommit;
+  if (base) {
+    info.diffStat = diffStat(cwd, base);
+  }
+  if (startCommit) {
+    if (head && head !== startCommit) {
+      const commits = git(cwd, ["rev-list", "--reverse", `${startCommit}..${head}`]);
+      const shas = commits ? commits.split("\n").filter(Boolean) : [];
+      info.commitCount = shas.length;
+      info.commits = shas.slice(-MAX_COMMITS);
+    } else {
+      info.commitCount = 0;
+      info.commits = [];
+    }
+  }
+
+  return info;
+}
@@ -1,81 +1,514 @@
-import { getClient } from "./api.js";
-import { getConfig } from "./config.js";
-import { HookInput } from "./types.js";
+import { getSink } from "./sinks.js";
+import { getConfig, listProfiles, Config, DEFAULT_MAX_TOOL_RESULT_SIZE } from "./config.js";
+import { Redactor } from "./redact.js";
+import { estimateCost, ModelPricing } from "./pricing.js";
+import { resolvePolicy, ProjectPolicy } from "./policy.js";
+import { uploadedImages } from "./images.js";
+import { summarizeConversation } from "./conversation.js";
+import { getWorkspaceInfo } from "./git.js";
+import { recordSessionStart, recordSessionActivity, recordSessionEnd } from "./lifecycle.js";
+import { withSessionLock } from "./lock.js";
+import { enqueueJob, spawnWorker, takeNextJob, startHardTimeout, DEFAULT_WORKER_TIMEOUT_MS } from "./worker.js";
+import { logInfo, logError, setLogContext } from "./log.js";
+import {
+  HookInput,
+  SessionData,
+  SessionSettings,
+  SessionLifecycle,
+  MessageData,
+  WorkspaceInfo,
+} from "./types.js";
 import {
   parseTranscript,
   parseSessionSettings,
   extractNewMessages,
   markMessagesSynced,
-  clearSyncState,
+  liveMessageKey,
+  recordLiveMessage,
+  findUnresolvedToolCall,
+  truncate,
+  ParsedTranscript,
 } from "./transcript.js";
+import { enqueue, flushOutbox } from "./outbox.js";
 
-async function getGitBranch(cwd: string): Promise<string | undefined> {
-  try {
-    const { execSync } = await import("child_process");
-    const branch = execSync("git rev-parse --abbrev-ref HEAD", {
-      cwd,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
-    return branch || undefined;
-  } catch {
-    return undefined;
-  }
-}
-
-export async function handleStop(input: HookInput): Promise<void> {
-  const client = getClient();
-  if (!client) return;
-
-  const config = getConfig();
-  if (!config?.autoSync) return;
-
-  if (!input.transcriptPath) return;
-
-  const transcript = parseTranscript(input.transcriptPath);
-  const settings = parseSessionSettings(input.transcriptPath);
-  const gitBranch = await getGitBranch(input.cwd);
-
-  // Sync session data (creates on first call, updates on subsequent)
-  await client.syncSession({
-    sessionId: input.sessionId,
+export function buildSessionData(opts: {
+  sessionId: string;
+  cwd?: string;
+  workspace?: WorkspaceInfo;
+  lifecycle?: SessionLifecycle;
+  permissionMode?: string;
+  transcript: ParsedTranscript;
+  settings: SessionSettings | null;
+  pricing?: Record<string, ModelPricing>;
+  // Applied to commands in the activity summary
+  redactor?: Redactor;
+}): SessionData {
+  const { cwd, transcript, settings, redactor } = opts;
+  const { activity } = transcript;
+  return {
+    sessionId: opts.sessionId,
     source: "factory-droid",
-    projectPath: input.cwd,
-    projectName: input.cwd ? input.cwd.split("/").pop() : undefined,
-    cwd: input.cwd,
-    gitBranch,
-    permissionMode: input.permissionMode,
+    projectPath: cwd,
+    projectName: cwd ? cwd.split("/").pop() : undefined,
+    cwd,
+    gitBranch: opts.workspace?.branch,
+    workspace: opts.workspace,
+    lifecycle: opts.lifecycle,
+    permissionMode: opts.permissionMode,
     title: transcript.sessionStart?.title,
     model: settings?.model,
     messageCount: transcript.messageCount,
     toolCallCount: transcript.toolCallCount,
+    activity:
+      transcript.toolCallCount > 0
+        ? { ...activity, commands: activity.commands.map((c) => redactor?.redactText(c).value ?? c) }
+        : undefined,
+    // Synced IDs on the tree are filled in by extractNewMessages, so call that first
+    conversation: transcript.messageCount > 0 ? summarizeConversation(transcript.tree) : undefined,
     durationMs: settings?.assistantActiveTimeMs,
     tokenUsage: settings?.tokenUsage
       ? {
           input: settings.tokenUsage.inputTokens ?? 0,
           output: settings.tokenUsage.outputTokens ?? 0,
+          cacheCreation: settings.tokenUsage.cacheCreationTokens ?? 0,
+          cacheRead: settings.tokenUsage.cacheReadTokens ?? 0,
+          thinking: settings.tokenUsage.thinkingTokens ?? 0,
         }
       : undefined,
+    costEstimate: estimateCost(settings?.model, settings?.tokenUsage, opts.pricing),
+  };
+}
+
+// Resolve config and project policy for a hook call, or null if it shouldn't sync
+function getHookContext(input: HookInput): { config: Config; policy: ProjectPolicy } | null {
+  const config = getConfig();
+  if (!config?.autoSync) return null;
+
+  const policy = resolvePolicy(input.cwd, config);
+  if (!policy.enabled) return null;
+  for (const warning of policy.warnings) {
+    logError("policy", "Skipping invalid setting", warning);
+  }
+
+  return { config, policy };
+}
+
+// Destinations are synced independently so one failing backend doesn't hold back the others
+async function forEachProfile(profiles: string[], fn: (profile: string) => Promise<void>): Promise<void> {
+  const errors: string[] = [];
+  for (const profile of profiles) {
+    try {
+      await fn(profile);
+    } catch (error) {
+      errors.push(`[${profile}] ${error}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+}
+
+function requireSink(profile: string) {
+  const sink = getSink(profile);
+  if (!sink) {
+    throw new Error(`Profile "${profile}" is not configured`);
+  }
+  return sink;
+}
+
+// Send messages as soon as a hook sees them. Failures go to the outbox; the
+// transcript sync on Stop sends the same message IDs again either way.
+async function pushLive(
+  profile: string,
+  input: HookInput,
+  opts: { session?: SessionData; messages: MessageData[]; liveKey?: string }
+): Promise<void> {
+  const sink = requireSink(profile);
+  const sessions = opts.session ? [opts.session] : [];
+  const started = Date.now();
+
+  try {
+    await sink.syncBatch(sessions, opts.messages);
+    logInfo("live", `Sent ${opts.messages.length} live message(s)`, {
+      profile,
+      messages: opts.messages.length,
+      durationMs: Date.now() - started,
+    });
+  } catch (error) {
+    logError("live", "Live push failed, queued in outbox", error, { profile, messages: opts.messages.length });
+    enqueue({ profile, sessionId: input.sessionId, sessions, messages: opts.messages, messageIds: [], error });
+    throw error;
+  } finally {
+    if (opts.liveKey && opts.messages.length > 0) {
+      recordLiveMessage(input.sessionId, opts.liveKey, opts.messages[0].messageId, profile);
+    }
+  }
+}
+
+export async function handleSessionStart(input: HookInput): Promise<void> {
+  const ctx = getHookContext(input);
+  if (!ctx) return;
+
+  // Also records HEAD as the session's start commit
+  const workspace = getWorkspaceInfo(input.cwd, input.sessionId);
+  // A missing transcript (brand-new session) parses as empty
+  const transcript = parseTranscript(input.transcriptPath ?? "");
+
+  // Create the session right away so it shows up before the first response
+  const session: SessionData = {
+    ...buildSessionData({
+      sessionId: input.sessionId,
+      cwd: input.cwd,
+      workspace,
+      lifecycle: recordSessionStart(input.sessionId, input.source, input.cwd),
+      permissionMode: input.permissionMode,
+      transcript,
+      settings: input.transcriptPath ? parseSessionSettings(input.transcriptPath) : null,
+      pricing: ctx.config.pricing,
+      redactor: new Redactor(ctx.policy.redaction),
+    }),
+    startSource: input.source,
+  };
+
+  await forEachProfile(ctx.policy.profiles, async (profile) => {
+    const sink = requireSink(profile);
+    await flushOutbox(sink, { profile });
+    const started = Date.now();
+    try {
+      await sink.syncSession(session);
+      logInfo("sync", "Created session", { profile, sessions: 1, durationMs: Date.now() - started });
+    } catch (error) {
+      logError("sync", "Session create failed, queued in outbox", error, { profile, sessions: 1 });
+      enqueue({ profile, sessionId: input.sessionId, sessions: [session], messages: [], messageIds: [], error });
+      throw error;
+    }
+  });
+}
+
+export async function handleUserPromptSubmit(input: HookInput): Promise<void> {
+  const ctx = getHookContext(input);
+  if (!ctx || !input.prompt?.trim()) return;
+
+  const redacted = new Redactor(ctx.policy.redaction).redactText(input.prompt);
+  const message: MessageData = {
+    sessionId: input.sessionId,
+    messageId: `${input.sessionId}-prompt-${Date.now()}`,
+    source: "factory-droid",
+    role: "user",
+    content: redacted.value,
+    timestamp: new Date().toISOString(),
+    redactionCount: redacted.count,
+  };
+
+  await forEachProfile(ctx.policy.profiles, (profile) =>
+    pushLive(profile, input, { messages: [message], liveKey: liveMessageKey("prompt", input.prompt) })
+  );
+}
+
+export async function handlePostToolUse(input: HookInput): Promise<void> {
+  const ctx = getHookContext(input);
+  if (!ctx || !ctx.policy.syncToolCalls || !input.toolName) return;
+
+  const redactor = new Redactor(ctx.policy.redaction);
+  const response =
+    typeof input.toolResponse === "string" ? input.toolResponse : JSON.stringify(input.toolResponse ?? "");
+  const result = redactor.redactText(response);
+  const args = redactor.redactValue(input.toolInput ?? {});
+
+  const message: MessageData = {
+    sessionId: input.sessionId,
+    messageId: `${input.sessionId}-tool-${Date.now()}`,
+    source: "factory-droid",
+    role: "assistant",
+    toolName: input.toolName,
+    toolArgs: args.value as Record<string, unknown>,
+    toolResult: truncate(result.value, ctx.config.maxToolResultSize ?? DEFAULT_MAX_TOOL_RESULT_SIZE),
+    timestamp: new Date().toISOString(),
+    redactionCount: args.count + result.count,
+  };
+
+  // Keyed like the transcript's tool_use block so Stop reuses this message ID
+  const contentKey = liveMessageKey("tool", { name: input.toolName, input: input.toolInput ?? {} });
+  const liveKey = input.toolUseId ? liveMessageKey("tool", { id: input.toolUseId }) : contentKey;
+  await forEachProfile(ctx.policy.profiles, (profile) => {
+    const sentId = findUnresolvedToolCall(input.sessionId, { toolUseId: input.toolUseId, liveKey: contentKey }, profile);
+    return pushLive(profile, input, { messages: [sentId ? { ...message, messageId: sentId } : message], liveKey });
   });
+}
+
+export async function handlePreCompact(input: HookInput): Promise<void> {
+  // Compaction rewrites the conversation, so sync everything up to this point first
+  await handleStop(input);
 
-  // Extract and sync new messages
-  const { newMessages, allMessageIds } = extractNewMessages({
+  const ctx = getHookContext(input);
+  if (!ctx) return;
+
+  const details = [`Conversation compacted (${input.trigger ?? "auto"})`];
+  if (input.customInstructions?.trim()) {
+    details.push(`Instructions: ${new Redactor(ctx.policy.redaction).redactText(input.customInstructions).value}`);
+  }
+  const message: MessageData = {
     sessionId: input.sessionId,
+    messageId: `${input.sessionId}-compact-${Date.now()}`,
+    source: "factory-droid",
+    role: "system",
+    content: details.join("\n"),
+    timestamp: new Date().toISOString(),
+  };
+
+  await forEachProfile(ctx.policy.profiles, (profile) => pushLive(profile, input, { messages: [message] }));
+}
+
+export async function handleStop(input: HookInput): Promise<void> {
+  const ctx = getHookContext(input);
+  if (!ctx || !input.transcriptPath) return;
+
+  await syncTranscript(input, ctx, recordSessionActivity(input.sessionId, input.cwd));
+}
+
+async function syncTranscript(
+  input: HookInput,
+  ctx: { config: Config; policy: ProjectPolicy },
+  lifecycle: SessionLifecycle
+): Promise<void> {
+  const settings = parseSessionSettings(input.transcriptPath);
+  const workspace = getWorkspaceInfo(input.cwd, input.sessionId);
+
+  await forEachProfile(ctx.policy.profiles, (profile) =>
+    syncToProfile(profile, input, { ...ctx, settings, workspace, lifecycle })
+  );
+}
+
+async function syncToProfile(
+  profile: string,
+  input: HookInput,
+  ctx: {
+    config: Config;
+    policy: ProjectPolicy;
+    settings: SessionSettings | null;
+    workspace?: WorkspaceInfo;
+    lifecycle?: SessionLifecycle;
+  }
+): Promise<void> {
+  const { config, policy, settings } = ctx;
+
+  const sink = requireSink(profile);
+
+  // Retry anything left over from earlier failures before sending new data
+  await flushOutbox(sink, { profile });
+
+  const transcript = parseTranscript(input.transcriptPath, { sessionId: input.sessionId, profile });
+
+  const redactor = new Redactor(policy.redaction);
+
+  // Extract new messages
+  const { newMessages, newMessageIds } = extractNewMessages({
+    sessionId: input.sessionId,
+    transcript,
+    syncToolCalls: policy.syncToolCalls,
+    syncThinking: policy.syncThinking,
+    maxToolResultSize: config.maxToolResultSize,
+    redactor,
+    images: config.images,
+    profile,
+  });
+
+  const session = buildSessionData({
+    sessionId: input.sessionId,
+    cwd: input.cwd,
+    workspace: ctx.workspace,
+    permissionMode: input.permissionMode,
     transcript,
-    syncToolCalls: config.syncToolCalls ?? true,
-    syncThinking: config.syncThinking ?? false,
+    settings,
+    pricing: config.pricing,
+    redactor,
+    lifecycle: ctx.lifecycle,
   });
 
-  if (newMessages.length > 0) {
-    await client.syncBatch([], newMessages);
-    markMessagesSynced(input.sessionId, allMessageIds);
+  const started = Date.now();
+  // Chunks land in order, so the delivered messages are always a prefix of newMessages
+  let delivered = 0;
+  try {
+    // Sync session data (creates on first call, updates on subsequent)
+    await sink.syncSession(session);
+    if (newMessages.length > 0) {
+      await sink.syncBatch([], newMessages, (sent) => {
+        // Record each chunk as it lands so a later failure doesn't send it again
+        const ids = newMessageIds.slice(delivered, delivered + sent.length);
+        markMessagesSynced(input.sessionId, ids, undefined, profile, uploadedImages(sent));
+        delivered += sent.length;
+      });
+    }
+    markMessagesSynced(input.sessionId, newMessageIds, transcript.cursor, profile);
+    logInfo("sync", `Synced ${newMessages.length} new message(s)`, {
+      profile,
+      sessions: 1,
+      messages: newMessages.length,
+      durationMs: Date.now() - started,
+    });
+  } catch (error) {
+    const remaining = newMessages.length - delivered;
+    logError("sync", `Sync failed after ${delivered} message(s), queued the rest in outbox`, error, {
+      profile,
+      sessions: 1,
+      messages: remaining,
+    });
+    // Keep the payload on disk so a later hook call or `droid-sync flush` can deliver it
+    enqueue({
+      profile,
+      sessionId: input.sessionId,
+      sessions: [session],
+      messages: newMessages.slice(delivered),
+      messageIds: newMessageIds.slice(delivered),
+      cursor: transcript.cursor,
+      error,
+    });
+    throw error;
   }
 }
 
 export async function handleSessionEnd(input: HookInput): Promise<void> {
-  // Clean up local sync state (synced message IDs cache)
-  // All actual syncing is handled by handleStop
-  clearSyncState(input.sessionId);
+  // Local sync state is kept so a resumed session carries on from its high-water mark
+  const lifecycle = recordSessionEnd(input.sessionId, input.reason, input.cwd);
+
+  // Final sync, which also marks the session as ended on each destination
+  const ctx = getHookContext(input);
+  if (ctx && input.transcriptPath) {
+    await syncTranscript(input, ctx, lifecycle);
+  }
+
+  const config = getConfig();
+  const profiles = config ? Object.keys(listProfiles(config)) : [];
+  for (const profile of profiles) {
+    const sink = getSink(profile);
+    if (sink) {
+      await flushOutbox(sink, { profile });
+    }
+  }
+}
+
+// Droid sends snake_case keys (session_id, tool_name, ...); accept camelCase too
+export function normalizeHookInput(raw: Record<string, unknown>): HookInput {
+  const input: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    input[key.replace(/_([a-z])/g, (_m, ch: string) => ch.toUpperCase())] = value;
+  }
+  return input as unknown as HookInput;
+}
+
+// Events `droid-sync login` registers
+export const HOOK_EVENTS = [
+  "SessionStart",
+  "UserPromptSubmit",
+  "PostToolUse",
+  "Stop",
+  "SubagentStop",
+  "PreCompact",
+  "SessionEnd",
+];
+
+// PreCompact must finish before Droid rewrites the transcript, so it always runs inline
+const FOREGROUND_EVENTS = new Set(["precompact"]);
+
+// Droid stops waiting for a hook after 60s; an inline run (lock wait and sync
+// together) ends before that and leaves anything unfinished to a worker
+const FOREGROUND_BUDGET_MS = 50000;
+
+function normalizeEventName(eventName: string): string {
+  return eventName.toLowerCase().replace(/-/g, "");
+}
+
+async function runHook(eventName: string, input: HookInput): Promise<void> {
+  switch (normalizeEventName(eventName)) {
+    case "sessionstart":
+      await handleSessionStart(input);
+      break;
+    case "userpromptsubmit":
+      await handleUserPromptSubmit(input);
+      break;
+    case "posttooluse":
+      await handlePostToolUse(input);
+      break;
+    case "stop":
+    case "subagentstop":
+      await handleStop(input);
+      break;
+    case "precompact":
+      await handlePreCompact(input);
+      break;
+    case "sessionend":
+      await handleSessionEnd(input);
+      break;
+    default:
+      // Ignore other events
+      break;
+  }
+}
+
+// One hook event; the hard timeout covers the event itself, not the wait for the lock
+async function runJob(eventName: string, input: HookInput, timeoutMs: number): Promise<void> {
+  setLogContext({ hook: eventName, sessionId: input.sessionId });
+  const timer = startHardTimeout(timeoutMs);
+  const started = Date.now();
+
+  try {
+    await runHook(eventName, input);
+    logInfo("hook", `${eventName} done`, { durationMs: Date.now() - started });
+  } catch (error) {
+    logError("hook", `${eventName} failed`, error, { durationMs: Date.now() - started });
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the session's queued events oldest first until none are left. Each one
+ * is taken and run under the session lock, so whichever process holds it runs
+ * the next event in hook order (the live-push dedupe relies on PostToolUse
+ * running before the Stop that follows it). A process that gives up waiting
+ * leaves its event to the current holder. With a `budgetMs`, waiting and
+ * running together stop at that budget and a background worker picks up
+ * whatever is still queued.
+ */
+async function runQueuedJobs(sessionId: string, timeoutMs: number, budgetMs?: number): Promise<void> {
+  const deadline = budgetMs === undefined ? Infinity : Date.now() + budgetMs;
+
+  for (;;) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      logInfo("worker", "Out of time for inline sync, handing queued events to a background worker", { sessionId });
+      spawnWorker(sessionId);
+      return;
+    }
+
+    // Long enough for the holder's current event to finish or hit its hard timeout
+    const lock = { waitMs: Math.min(timeoutMs, remaining), maxAgeMs: timeoutMs };
+    let ran: boolean;
+    try {
+      ran = await withSessionLock(sessionId, lock, async () => {
+        const job = takeNextJob(sessionId);
+        if (!job) return false;
+        try {
+          await runJob(job.event, job.input, Math.min(timeoutMs, deadline - Date.now()));
+        } catch (error) {
+          // Logged by runJob; the rest of the queue still runs
+          console.error(`[droid-sync] Error: ${error}`);
+        }
+        return true;
+      });
+    } catch {
+      // Whoever holds the lock runs the remaining events
+      logInfo("worker", "Session lock still busy, leaving queued events to its holder", { sessionId });
+      return;
+    }
+    if (!ran) return;
+  }
+}
+
+function workerTimeout(config: Config | null): number {
+  return config?.workerTimeoutMs ?? DEFAULT_WORKER_TIMEOUT_MS;
 }
 
 export async function dispatchHook(eventName: string): Promise<void> {
@@ -97,25 +530,28 @@ export async function dispatchHook(eventName: string): Promise<void> {
 
   let input: HookInput;
   try {
-    input = JSON.parse(inputJson);
+    input = normalizeHookInput(JSON.parse(inputJson));
   } catch (e) {
     console.error("[droid-sync] Invalid JSON input:", e);
+    logError("hook", `${eventName}: invalid JSON input`, e, { hook: eventName });
     process.exit(1);
   }
 
-  const normalizedEvent = eventName.toLowerCase().replace(/-/g, "");
+  const foreground =
+    config.backgroundSync === false ||
+    process.env.DROID_SYNC_FOREGROUND === "true" ||
+    FOREGROUND_EVENTS.has(normalizeEventName(eventName));
 
+  // Events of one session run in hook order, whether inline or in the background
+  const queue = input.sessionId || "unknown";
   try {
-    switch (normalizedEvent) {
-      case "stop":
-        await handleStop(input);
-        break;
-      case "sessionend":
-        await handleSessionEnd(input);
-        break;
-      default:
-        // Ignore other events
-        break;
+    enqueueJob(queue, eventName, input);
+    if (foreground) {
+      // Returns once this event (and any queued before it) has run
+      await runQueuedJobs(queue, workerTimeout(config), FOREGROUND_BUDGET_MS);
+    } else {
+      spawnWorker(queue);
+      logInfo("worker", "Handed off to background worker", { hook: eventName, sessionId: input.sessionId });
     }
     process.exit(0);
   } catch (error) {
@@ -123,3 +559,14 @@ export async function dispatchHook(eventName: string): Promise<void> {
     process.exit(0);
   }
 }
+
+// Entry point of the detached process started by spawnWorker
+export async function runHookWorker(sessionId: string): Promise<void> {
+  try {
+    await runQueuedJobs(sessionId, workerTimeout(getConfig()));
+    process.exit(0);
+  } catch (error) {
+    logError("worker", "Worker failed", error, { sessionId });
+    process.exit(1);
+  }
+}
@@ -0,0 +1,242 @@
+import http, { ClientRequest, IncomingHttpHeaders, IncomingMessage } from "http";
+import https from "https";
+import tls from "tls";
+import { Socket } from "net";
+import { readFileSync } from "fs";
+import { createHash } from "crypto";
+import { HttpConfig, expandHome } from "./config.js";
+import { logInfo, logError } from "./log.js";
+import { DEFAULT_HTTP_TIMEOUT_MS, DEFAULT_HTTP_RETRIES } from "./schema.js";
+
+// Retry delay before attempt n+1 is random in [0, min(base * 2^n, max)] ("full jitter")
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+// Longest Retry-After we wait for; the worker's hard timeout still applies
+const MAX_RETRY_AFTER_MS = 60000;
+
+// Worth retrying: the same request can succeed later
+const RETRY_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export interface HttpResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+interface RequestOptions {
+  method: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+function isOk(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+// Whether NO_PROXY (host names, ".suffix", "*.suffix", "host:port" or "*") covers the URL
+function bypassesProxy(url: URL): boolean {
+  const noProxy = process.env.NO_PROXY ?? process.env.no_proxy;
+  if (!noProxy) return false;
+
+  const host = url.hostname.toLowerCase();
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((raw) => {
+      const entry = raw.toLowerCase();
+      if (entry === "*") return true;
+      const [name, entryPort] = entry.split(":");
+      if (entryPort && entryPort !== port) return false;
+      const suffix = name.replace(/^\*?\./, "");
+      return host === suffix || host.endsWith(`.${suffix}`);
+    });
+}
+
+export function getProxy(url: URL): URL | undefined {
+  const env =
+    url.protocol === "https:"
+      ? (process.env.HTTPS_PROXY ?? process.env.https_proxy)
+      : (process.env.HTTP_PROXY ?? process.env.http_proxy);
+  if (!env || bypassesProxy(url)) return undefined;
+  return new URL(env.includes("://") ? env : `http://${env}`);
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { "Proxy-Authorization": `Basic ${Buffer.from(credentials).toString("base64")}` };
+}
+
+// CA bundles read once per process; the extra bundle is added to Node's built-in roots
+const caCache = new Map<string, string[]>();
+
+function loadCa(caFile: string | undefined): string[] | undefined {
+  if (!caFile) return undefined;
+  let ca = caCache.get(caFile);
+  if (!ca) {
+    ca = [...tls.rootCertificates, readFileSync(expandHome(caFile), "utf-8")];
+    caCache.set(caFile, ca);
+  }
+  return ca;
+}
+
+function readResponse(res: IncomingMessage): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    res.on("data", (chunk: Buffer) => chunks.push(chunk));
+    res.on("end", () =>
+      resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks).toString("utf-8") })
+    );
+    res.on("error", reject);
+  });
+}
+
+// Open a tunnel to the target through an HTTP proxy (CONNECT)
+function connectTunnel(proxy: URL, target: URL, track: (req: ClientRequest) => void): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const authority = `${target.hostname}:${target.port || 443}`;
+    const req = (proxy.protocol === "https:" ? https : http).request({
+      host: proxy.hostname,
+      port: proxy.port || (proxy.protocol === "https:" ? 443 : 80),
+      method: "CONNECT",
+      path: authority,
+      headers: { Host: authority, ...proxyAuthorization(proxy) },
+    });
+    track(req);
+    req.on("connect", (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new Error(`Proxy ${proxy.host} refused the tunnel: ${res.statusCode}`));
+      }
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+// One attempt, through the proxy if one applies, ended after `timeoutMs`
+async function send(url: URL, opts: RequestOptions, config: HttpConfig): Promise<HttpResponse> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_HTTP_TIMEOUT_MS;
+  const proxy = getProxy(url);
+  const ca = loadCa(config.caFile);
+
+  const pending: ClientRequest[] = [];
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`Request timed out after ${timeoutMs}ms`);
+      pending.forEach((req) => req.destroy(error));
+      reject(error);
+    }, timeoutMs);
+  });
+
+  const attempt = async (): Promise<HttpResponse> => {
+    const headers: Record<string, string | number> = { ...opts.headers };
+    if (opts.body !== undefined) headers["Content-Length"] = Buffer.byteLength(opts.body);
+
+    let req: ClientRequest;
+    if (url.protocol === "https:") {
+      const socket = proxy ? await connectTunnel(proxy, url, (r) => pending.push(r)) : undefined;
+      req = https.request(url, {
+        method: opts.method,
+        headers,
+        ca,
+        ...(socket
+          ? { agent: false, createConnection: () => tls.connect({ socket, servername: url.hostname, ca }) }
+          : {}),
+      });
+    } else if (proxy) {
+      // Plain HTTP goes to the proxy with the absolute URL as the path
+      req = http.request({
+        host: proxy.hostname,
+        port: proxy.port || 80,
+        method: opts.method,
+        path: url.href,
+        headers: { ...headers, Host: url.host, ...proxyAuthorization(proxy) },
+      });
+    } else {
+      req = http.request(url, { method: opts.method, headers });
+    }
+    pending.push(req);
+
+    return new Promise((resolve, reject) => {
+      req.on("response", (res) => readResponse(res).then(resolve, reject));
+      req.on("error", reject);
+      req.end(opts.body);
+    });
+  };
+
+  const result = attempt();
+  // The loser of the race below still settles; don't let that surface as unhandled
+  result.catch(() => {});
+  try {
+    return await Promise.race([result, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Retry-After is either seconds or an HTTP date
+function retryAfterMs(res: HttpResponse): number | undefined {
+  const value = res.headers["retry-after"];
+  if (typeof value !== "string") return undefined;
+  const ms = /^\d+$/.test(value.trim()) ? Number(value) * 1000 : Date.parse(value) - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS) : undefined;
+}
+
+function backoffMs(attempt: number): number {
+  return Math.round(Math.random() * Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS));
+}
+
+/**
+ * Send a request, retrying network errors, timeouts, 429 and 5xx responses with
+ * jittered backoff (or the server's Retry-After). Returns the final response,
+ * whatever its status; throws only when no response arrived at all.
+ */
+export async function httpRequest(
+  url: string,
+  opts: RequestOptions & { config?: HttpConfig; retries?: number; label: string }
+): Promise<HttpResponse> {
+  const config = opts.config ?? {};
+  const retries = opts.retries ?? config.retries ?? DEFAULT_HTTP_RETRIES;
+  const target = new URL(url);
+
+  for (let attempt = 0; ; attempt++) {
+    const label = attempt > 0 ? `${opts.label} (retry ${attempt}/${retries})` : opts.label;
+    const started = Date.now();
+
+    let res: HttpResponse;
+    try {
+      res = await send(target, opts, config);
+    } catch (error) {
+      logError("http", label, error, { url, durationMs: Date.now() - started });
+      if (attempt >= retries) throw error;
+      await new Promise((r) => setTimeout(r, backoffMs(attempt)));
+      continue;
+    }
+
+    const fields = { url, status: res.status, durationMs: Date.now() - started };
+    if (isOk(res.status)) {
+      logInfo("http", label, fields);
+      return res;
+    }
+    logError("http", label, `HTTP ${res.status}`, fields);
+    if (attempt >= retries || !RETRY_STATUSES.has(res.status)) return res;
+    await new Promise((r) => setTimeout(r, retryAfterMs(res) ?? backoffMs(attempt)));
+  }
+}
+
+export function responseOk(res: HttpResponse): boolean {
+  return isOk(res.status);
+}
+
+/**
+ * Same key for every retry of one request, so the receiver can drop repeats:
+ * derived from the external IDs being written and the exact body.
+ */
+export function idempotencyKey(externalIds: string[], body: string): string {
+  return createHash("sha256").update(externalIds.join("\n")).update("\n").update(body).digest("hex").slice(0, 40);
+}
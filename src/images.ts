@@ -0,0 +1,122 @@
+import { createHash } from "crypto";
+import { ImageConfig } from "./config.js";
+import { MessageData, MessageImage, TranscriptImageBlock } from "./types.js";
+
+export const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_MAX_SESSION_IMAGE_BYTES = 20 * 1024 * 1024;
+
+function pngSize(data: Buffer): { width: number; height: number } | undefined {
+  if (data.length < 24 || data.readUInt32BE(0) !== 0x89504e47) return undefined;
+  return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+}
+
+function gifSize(data: Buffer): { width: number; height: number } | undefined {
+  if (data.length < 10 || data.toString("ascii", 0, 3) !== "GIF") return undefined;
+  return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+}
+
+function jpegSize(data: Buffer): { width: number; height: number } | undefined {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+  let i = 2;
+  while (i + 9 < data.length) {
+    if (data[i] !== 0xff) return undefined;
+    const marker = data[i + 1];
+    // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(i + 7), height: data.readUInt16BE(i + 5) };
+    }
+    i += 2 + data.readUInt16BE(i + 2);
+  }
+  return undefined;
+}
+
+function webpSize(data: Buffer): { width: number; height: number } | undefined {
+  if (data.length < 30 || data.toString("ascii", 0, 4) !== "RIFF" || data.toString("ascii", 8, 12) !== "WEBP") {
+    return undefined;
+  }
+  const chunk = data.toString("ascii", 12, 16);
+  if (chunk === "VP8 ") {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === "VP8L") {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X") {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  return undefined;
+}
+
+// Read dimensions from the image header; undefined for unknown or truncated formats
+export function imageDimensions(data: Buffer): { width: number; height: number } | undefined {
+  return pngSize(data) ?? jpegSize(data) ?? gifSize(data) ?? webpSize(data);
+}
+
+/**
+ * Turns transcript image blocks into message images. Tracks which images were
+ * already uploaded (by SHA-256, with their sizes) so a screenshot pasted
+ * repeatedly is only uploaded once and the per-session byte budget holds
+ * across syncs.
+ */
+export class ImageProcessor {
+  private mode: NonNullable<ImageConfig["mode"]>;
+  private maxImageBytes: number;
+  private maxSessionBytes: number;
+  private uploaded: Map<string, number>;
+  private uploadedBytes: number;
+
+  constructor(config: ImageConfig = {}, uploaded: Record<string, number> = {}) {
+    this.mode = config.mode ?? "metadata";
+    this.maxImageBytes = config.maxImageBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+    this.maxSessionBytes = config.maxSessionBytes ?? DEFAULT_MAX_SESSION_IMAGE_BYTES;
+    this.uploaded = new Map(Object.entries(uploaded));
+    this.uploadedBytes = [...this.uploaded.values()].reduce((sum, n) => sum + n, 0);
+  }
+
+  get enabled(): boolean {
+    return this.mode !== "off";
+  }
+
+  process(block: TranscriptImageBlock): MessageImage | null {
+    if (this.mode === "off" || block.source?.type !== "base64" || typeof block.source.data !== "string") {
+      return null;
+    }
+
+    const data = Buffer.from(block.source.data, "base64");
+    const image: MessageImage = {
+      mediaType: block.source.media_type,
+      ...imageDimensions(data),
+      byteSize: data.length,
+      sha256: createHash("sha256").update(data).digest("hex"),
+    };
+
+    if (this.mode !== "full") return image;
+
+    if (this.uploaded.has(image.sha256)) {
+      image.omitted = "duplicate";
+    } else if (image.byteSize > this.maxImageBytes) {
+      image.omitted = "too-large";
+    } else if (this.uploadedBytes + image.byteSize > this.maxSessionBytes) {
+      image.omitted = "session-limit";
+    } else {
+      image.data = block.source.data;
+      this.uploaded.set(image.sha256, image.byteSize);
+      this.uploadedBytes += image.byteSize;
+    }
+    return image;
+  }
+}
+
+// Images whose data is in these messages, for recording in the sync state
+export function uploadedImages(messages: MessageData[]): Record<string, number> {
+  const images: Record<string, number> = {};
+  for (const message of messages) {
+    for (const image of message.images ?? []) {
+      if (image.data !== undefined) {
+        images[image.sha256] = image.byteSize;
+      }
+    }
+  }
+  return images;
+}
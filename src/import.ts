@@ -0,0 +1,188 @@
+import { existsSync, readdirSync, statSync } from "fs";
+import { homedir } from "os";
+import { basename, join } from "path";
+import { getSink } from "./sinks.js";
+import { Config } from "./config.js";
+import { buildSessionData } from "./hooks.js";
+import { getLifecycle } from "./lifecycle.js";
+import { Redactor } from "./redact.js";
+import { uploadedImages } from "./images.js";
+import { resolvePolicy } from "./policy.js";
+import { withSessionLock } from "./lock.js";
+import { DEFAULT_WORKER_TIMEOUT_MS } from "./worker.js";
+import { parseTranscript, parseSessionSettings, extractNewMessages, markMessagesSynced } from "./transcript.js";
+
+export const DEFAULT_SESSIONS_DIR = join(homedir(), ".factory", "sessions");
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface ImportOptions {
+  path?: string;
+  since?: Date;
+  until?: Date;
+  project?: string;
+  dryRun?: boolean;
+  batchSize?: number;
+  // Sync to this profile instead of the ones the project policy picks
+  profile?: string;
+}
+
+export interface ImportResult {
+  found: number;
+  imported: number;
+  skipped: number;
+  messages: number;
+}
+
+export function findTranscripts(root: string): string[] {
+  if (!existsSync(root)) return [];
+
+  if (statSync(root).isFile()) {
+    return root.endsWith(".jsonl") ? [root] : [];
+  }
+
+  const results: string[] = [];
+  for (const entry of readdirSync(root, { withFileTypes: true })) {
+    const full = join(root, entry.name);
+    if (entry.isDirectory()) {
+      results.push(...findTranscripts(full));
+    } else if (entry.isFile() && entry.name.endsWith(".jsonl")) {
+      results.push(full);
+    }
+  }
+  return results.sort();
+}
+
+// Whole path components only: "app" matches /work/app/api but not /work/webapp
+function matchesProject(cwd: string | undefined, project: string): boolean {
+  if (!cwd) return false;
+  const parts = cwd.split(/[\\/]+/).filter(Boolean);
+  const wanted = project.split(/[\\/]+/).filter(Boolean);
+  if (wanted.length === 0) return false;
+  return parts.some((_, i) => wanted.every((part, j) => parts[i + j] === part));
+}
+
+export async function importSessions(
+  config: Config,
+  opts: ImportOptions,
+  log: (line: string) => void = console.log
+): Promise<ImportResult> {
+  const root = opts.path ?? DEFAULT_SESSIONS_DIR;
+  const batchSize = opts.batchSize ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isSafeInteger(batchSize) || batchSize < 1) {
+    throw new Error(`Batch size must be a whole number of 1 or more, got ${batchSize}`);
+  }
+  const files = findTranscripts(root);
+  const result: ImportResult = { found: files.length, imported: 0, skipped: 0, messages: 0 };
+
+  for (const [index, file] of files.entries()) {
+    const progress = `[${index + 1}/${files.length}]`;
+    const sessionId = basename(file, ".jsonl");
+    // Full parse: filters need the whole session, and each profile dedupes against its own state
+    const transcript = parseTranscript(file);
+    const cwd = transcript.sessionStart?.cwd;
+
+    // Date filters apply to when the session started
+    const startedAt = transcript.messages[0]?.timestamp
+      ? new Date(transcript.messages[0].timestamp)
+      : statSync(file).mtime;
+
+    if (
+      transcript.messages.length === 0 ||
+      (opts.since && startedAt < opts.since) ||
+      (opts.until && startedAt > opts.until) ||
+      (opts.project && !matchesProject(cwd, opts.project))
+    ) {
+      result.skipped++;
+      continue;
+    }
+
+    const policy = resolvePolicy(cwd, config);
+    if (!policy.enabled) {
+      result.skipped++;
+      continue;
+    }
+
+    const settings = parseSessionSettings(file);
+    const redactor = new Redactor(policy.redaction);
+    let imported = 0;
+
+    // A running Stop hook may be syncing this session; its state is only
+    // read and written under the session lock
+    const timeoutMs = config.workerTimeoutMs ?? DEFAULT_WORKER_TIMEOUT_MS;
+    let locked = false;
+    try {
+      await withSessionLock(sessionId, { waitMs: timeoutMs, maxAgeMs: timeoutMs }, async () => {
+        locked = true;
+        for (const profile of opts.profile ? [opts.profile] : policy.profiles) {
+          // Already-synced messages are filtered out here, which is what makes a re-run resume
+          const { newMessages, newMessageIds } = extractNewMessages({
+            sessionId,
+            transcript,
+            syncToolCalls: policy.syncToolCalls,
+            syncThinking: policy.syncThinking,
+            maxToolResultSize: config.maxToolResultSize,
+            redactor,
+            images: config.images,
+            profile,
+          });
+
+          const label = `${progress} ${cwd ? basename(cwd) : "unknown"} ${sessionId} → ${profile}`;
+          if (newMessages.length === 0) {
+            log(`${label}: already synced`);
+            continue;
+          }
+
+          const sink = getSink(profile);
+          if (!sink) {
+            // Nothing is sent, so this doesn't count as imported
+            log(`${label}: skipped, profile not configured`);
+            continue;
+          }
+          if (opts.dryRun) {
+            log(`${label}: ${newMessages.length} messages (dry run)`);
+            imported = Math.max(imported, newMessages.length);
+            continue;
+          }
+
+          const session = buildSessionData({
+            sessionId,
+            cwd,
+            transcript,
+            settings,
+            pricing: config.pricing,
+            redactor,
+            lifecycle: getLifecycle(sessionId),
+          });
+          await sink.syncSession(session);
+
+          // Mark each chunk as soon as it lands so an interrupted import picks up where it stopped.
+          // State is keyed by transcript ID, which differs from the sent ID for messages pushed live.
+          let delivered = 0;
+          for (let i = 0; i < newMessages.length; i += batchSize) {
+            const batch = newMessages.slice(i, i + batchSize);
+            await sink.syncBatch([], batch, (sent) => {
+              const ids = newMessageIds.slice(delivered, delivered + sent.length);
+              markMessagesSynced(sessionId, ids, undefined, profile, uploadedImages(sent));
+              delivered += sent.length;
+            });
+            log(`${label}: ${Math.min(i + batchSize, newMessages.length)}/${newMessages.length} messages`);
+          }
+          markMessagesSynced(sessionId, newMessageIds, transcript.cursor, profile);
+          imported = Math.max(imported, newMessages.length);
+        }
+      });
+    } catch (e) {
+      if (locked) throw e;
+      log(`${progress} ${sessionId}: skipped, a hook is still syncing this session`);
+    }
+
+    if (imported > 0) {
+      result.imported++;
+      result.messages += imported;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  return result;
+}
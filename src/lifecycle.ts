@@ -0,0 +1,140 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+import { SessionLifecycle } from "./types.js";
+
+// Session-level (not per-profile) lifecycle, kept after SessionEnd so a resumed
+// session continues from where it left off
+const LIFECYCLE_DIR = join(homedir(), ".config", "droid-sync", "state", "lifecycle");
+// Most recent session per working directory, used to link compacted/cleared sessions
+const LAST_BY_CWD_FILE = join(LIFECYCLE_DIR, "last-by-cwd.json");
+
+// SessionStart sources that continue an earlier conversation under a new session ID
+const CONTINUATION_SOURCES = new Set(["compact", "clear"]);
+
+interface LifecycleState {
+  startedAt: string;
+  startSource?: string;
+  predecessorSessionId?: string;
+  resumeCount: number;
+  compactionCount: number;
+  lastActiveAt: string;
+  endedAt?: string;
+  endReason?: string;
+}
+
+function getLifecycleFile(sessionId: string): string {
+  return join(LIFECYCLE_DIR, `${sessionId}.json`);
+}
+
+function readJson<T>(file: string): T | null {
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(file: string, value: unknown): void {
+  if (!existsSync(LIFECYCLE_DIR)) {
+    mkdirSync(LIFECYCLE_DIR, { recursive: true });
+  }
+  writeFileSync(file, JSON.stringify(value, null, 2));
+}
+
+function toLifecycle(state: LifecycleState): SessionLifecycle {
+  return {
+    status: state.endedAt ? "ended" : "active",
+    startedAt: state.startedAt,
+    startSource: state.startSource,
+    predecessorSessionId: state.predecessorSessionId,
+    resumeCount: state.resumeCount,
+    compactionCount: state.compactionCount,
+    endedAt: state.endedAt,
+    endReason: state.endReason,
+  };
+}
+
+function loadState(sessionId: string): LifecycleState | null {
+  return readJson<LifecycleState>(getLifecycleFile(sessionId));
+}
+
+function newState(now: string): LifecycleState {
+  return { startedAt: now, resumeCount: 0, compactionCount: 0, lastActiveAt: now };
+}
+
+function rememberCwd(sessionId: string, cwd: string | undefined): void {
+  if (!cwd) return;
+  const lastByCwd = readJson<Record<string, string>>(LAST_BY_CWD_FILE) ?? {};
+  const key = resolve(cwd);
+  if (lastByCwd[key] !== sessionId) {
+    lastByCwd[key] = sessionId;
+    writeJson(LAST_BY_CWD_FILE, lastByCwd);
+  }
+}
+
+export function getLifecycle(sessionId: string): SessionLifecycle | undefined {
+  const state = loadState(sessionId);
+  return state ? toLifecycle(state) : undefined;
+}
+
+/**
+ * SessionStart. A known session ID is a resume (or an in-place compaction) and
+ * is reopened; a new ID started by compaction or /clear is linked to the last
+ * session in the same directory.
+ */
+export function recordSessionStart(sessionId: string, source: string | undefined, cwd?: string): SessionLifecycle {
+  const now = new Date().toISOString();
+  let state = loadState(sessionId);
+
+  if (state) {
+    if (source === "resume") state.resumeCount++;
+    if (source === "compact") state.compactionCount++;
+    delete state.endedAt;
+    delete state.endReason;
+  } else {
+    state = newState(now);
+    if (cwd && source && CONTINUATION_SOURCES.has(source)) {
+      const previous = readJson<Record<string, string>>(LAST_BY_CWD_FILE)?.[resolve(cwd)];
+      if (previous && previous !== sessionId) {
+        state.predecessorSessionId = previous;
+      }
+    }
+  }
+
+  state.startSource = source ?? state.startSource;
+  state.lastActiveAt = now;
+  writeJson(getLifecycleFile(sessionId), state);
+  rememberCwd(sessionId, cwd);
+  return toLifecycle(state);
+}
+
+// Stop. New activity on an ended session means it was resumed without a SessionStart
+export function recordSessionActivity(sessionId: string, cwd?: string): SessionLifecycle {
+  const now = new Date().toISOString();
+  const state = loadState(sessionId) ?? newState(now);
+
+  if (state.endedAt) {
+    state.resumeCount++;
+    delete state.endedAt;
+    delete state.endReason;
+  }
+
+  state.lastActiveAt = now;
+  writeJson(getLifecycleFile(sessionId), state);
+  rememberCwd(sessionId, cwd);
+  return toLifecycle(state);
+}
+
+export function recordSessionEnd(sessionId: string, reason: string | undefined, cwd?: string): SessionLifecycle {
+  const now = new Date().toISOString();
+  const state = loadState(sessionId) ?? newState(now);
+
+  state.endedAt = now;
+  state.endReason = reason ?? "other";
+  state.lastActiveAt = now;
+  writeJson(getLifecycleFile(sessionId), state);
+  rememberCwd(sessionId, cwd);
+  return toLifecycle(state);
+}
@@ -0,0 +1,116 @@
+import { existsSync, linkSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+const LOCK_DIR = join(homedir(), ".config", "droid-sync", "locks");
+
+const POLL_INTERVAL_MS = 100;
+
+// How long a lock without a readable owner counts as held
+const UNREADABLE_GRACE_MS = 5000;
+
+interface LockInfo {
+  pid: number;
+  createdAt: number;
+}
+
+function getLockFile(sessionId: string): string {
+  return join(LOCK_DIR, `${sessionId}.lock`);
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM means the process exists but belongs to someone else
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// A lock is stale when its owner died or it outlived the worker timeout
+function isStale(file: string, maxAgeMs: number): boolean {
+  try {
+    const info = JSON.parse(readFileSync(file, "utf-8")) as LockInfo;
+    return !isAlive(info.pid) || Date.now() - info.createdAt > maxAgeMs;
+  } catch {
+    // Unreadable: tryAcquire links it in complete, so this came from elsewhere
+    // (an older version or a crash). Respect it briefly in case it is still
+    // being written.
+    try {
+      return Date.now() - statSync(file).mtimeMs > UNREADABLE_GRACE_MS;
+    } catch {
+      // Removed meanwhile
+      return true;
+    }
+  }
+}
+
+// The owner is written to a private file first and then linked into place, so
+// the lock never exists without its contents for another worker to misread
+function tryAcquire(file: string): boolean {
+  const pending = `${file}.${process.pid}.${Date.now()}`;
+  writeFileSync(pending, JSON.stringify({ pid: process.pid, createdAt: Date.now() } satisfies LockInfo));
+  try {
+    linkSync(pending, file);
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw e;
+  } finally {
+    unlinkSync(pending);
+  }
+}
+
+function release(file: string): void {
+  try {
+    const info = JSON.parse(readFileSync(file, "utf-8")) as LockInfo;
+    if (info.pid === process.pid) unlinkSync(file);
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Run `fn` while holding the session's lock file, so two syncs of one session
+ * never read and write its state at the same time. Waits up to `waitMs` for
+ * another holder; locks older than `maxAgeMs` or held by a dead process are
+ * taken over.
+ */
+export async function withSessionLock<T>(
+  sessionId: string,
+  opts: { waitMs: number; maxAgeMs: number },
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!existsSync(LOCK_DIR)) {
+    mkdirSync(LOCK_DIR, { recursive: true });
+  }
+
+  const file = getLockFile(sessionId);
+  const deadline = Date.now() + opts.waitMs;
+
+  while (!tryAcquire(file)) {
+    if (isStale(file, opts.maxAgeMs)) {
+      try {
+        unlinkSync(file);
+      } catch {
+        // Another waiter removed it first
+      }
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the sync lock of session ${sessionId}`);
+    }
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+  }
+
+  // Released on normal exit too, in case the hard timeout ends the process
+  const onExit = () => release(file);
+  process.once("exit", onExit);
+  try {
+    return await fn();
+  } finally {
+    process.removeListener("exit", onExit);
+    release(file);
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+export const LOG_DIR = join(homedir(), ".config", "droid-sync", "logs");
+export const LOG_FILE = join(LOG_DIR, "droid-sync.log");
+
+// Rotated to droid-sync.1.log, droid-sync.2.log, ... once the current file passes this size
+const MAX_LOG_BYTES = 1024 * 1024;
+const MAX_ROTATED_FILES = 3;
+
+// Long error messages (e.g. an HTML error page) are cut to this length
+const MAX_ERROR_LENGTH = 500;
+
+// One line of the log. Only metadata is recorded, never session or message content.
+export interface LogEntry {
+  time: string;
+  level: "info" | "error";
+  // hook, sync, live, http, outbox, worker
+  kind: string;
+  message: string;
+  pid: number;
+  hook?: string;
+  sessionId?: string;
+  profile?: string;
+  sessions?: number;
+  messages?: number;
+  durationMs?: number;
+  status?: number;
+  url?: string;
+  error?: string;
+}
+
+type LogFields = Partial<Omit<LogEntry, "time" | "level" | "kind" | "message" | "pid">>;
+
+// Fields added to every entry written by this process (the hook and session being handled)
+let context: LogFields = {};
+
+export function setLogContext(fields: LogFields): void {
+  context = { ...context, ...fields };
+}
+
+function rotatedFile(n: number): string {
+  return join(LOG_DIR, `droid-sync.${n}.log`);
+}
+
+function rotate(): void {
+  try {
+    if (statSync(LOG_FILE).size < MAX_LOG_BYTES) return;
+  } catch {
+    return;
+  }
+
+  const oldest = rotatedFile(MAX_ROTATED_FILES);
+  if (existsSync(oldest)) unlinkSync(oldest);
+  for (let n = MAX_ROTATED_FILES - 1; n >= 1; n--) {
+    if (existsSync(rotatedFile(n))) renameSync(rotatedFile(n), rotatedFile(n + 1));
+  }
+  renameSync(LOG_FILE, rotatedFile(1));
+}
+
+// Only the origin: paths (Slack and Discord webhooks), query strings and
+// userinfo can all carry tokens
+function stripUrl(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "[invalid URL]";
+  }
+}
+
+function write(level: LogEntry["level"], kind: string, message: string, fields: LogFields): void {
+  const entry: LogEntry = {
+    time: new Date().toISOString(),
+    level,
+    kind,
+    message,
+    pid: process.pid,
+    ...context,
+    ...fields,
+  };
+  if (entry.error) entry.error = entry.error.slice(0, MAX_ERROR_LENGTH);
+  if (entry.url) entry.url = stripUrl(entry.url);
+
+  if (process.env.DROID_SYNC_DEBUG === "true") {
+    console.error(`[droid-sync:${kind}] ${message}${entry.error ? `: ${entry.error}` : ""}`);
+  }
+
+  // Logging must never break a sync
+  try {
+    if (!existsSync(LOG_DIR)) {
+      mkdirSync(LOG_DIR, { recursive: true });
+    }
+    rotate();
+    appendFileSync(LOG_FILE, JSON.stringify(entry) + "\n");
+  } catch {
+    // Ignore errors
+  }
+}
+
+export function logInfo(kind: string, message: string, fields: LogFields = {}): void {
+  write("info", kind, message, fields);
+}
+
+export function logError(kind: string, message: string, error: unknown, fields: LogFields = {}): void {
+  write("error", kind, message, { ...fields, error: error instanceof Error ? error.message : String(error) });
+}
+
+function parseLines(text: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip lines cut short by a crash
+    }
+  }
+  return entries;
+}
+
+// All entries still on disk, oldest first
+export function readLog(): LogEntry[] {
+  const entries: LogEntry[] = [];
+  const files = [];
+  for (let n = MAX_ROTATED_FILES; n >= 1; n--) {
+    files.push(rotatedFile(n));
+  }
+  files.push(LOG_FILE);
+
+  for (const file of files) {
+    if (existsSync(file)) entries.push(...parseLines(readFileSync(file, "utf-8")));
+  }
+  return entries;
+}
+
+const FOLLOW_INTERVAL_MS = 500;
+
+/**
+ * Call `onEntry` for every entry appended to the log from now on, like
+ * `tail -f`. Starts over at the beginning of the file after a rotation.
+ */
+export function followLog(onEntry: (entry: LogEntry) => void): void {
+  let offset = existsSync(LOG_FILE) ? statSync(LOG_FILE).size : 0;
+  // A partial last line waits for the rest of it
+  let pending = "";
+
+  setInterval(() => {
+    let size: number;
+    try {
+      size = statSync(LOG_FILE).size;
+    } catch {
+      return;
+    }
+    if (size < offset) {
+      offset = 0;
+      pending = "";
+    }
+    if (size === offset) return;
+
+    const buffer = Buffer.alloc(size - offset);
+    const fd = openSync(LOG_FILE, "r");
+    try {
+      readSync(fd, buffer, 0, buffer.length, offset);
+    } finally {
+      closeSync(fd);
+    }
+    offset = size;
+
+    const text = pending + buffer.toString("utf-8");
+    const end = text.lastIndexOf("\n") + 1;
+    pending = text.slice(end);
+    parseLines(text.slice(0, end)).forEach(onEntry);
+  }, FOLLOW_INTERVAL_MS);
+}
+
+export function formatLogEntry(entry: LogEntry): string {
+  const details = [
+    entry.profile && `[${entry.profile}]`,
+    entry.status !== undefined && `HTTP ${entry.status}`,
+    entry.durationMs !== undefined && `${entry.durationMs}ms`,
+  ].filter(Boolean);
+
+  return [
+    entry.time,
+    entry.level === "error" ? "❌" : "  ",
+    entry.hook ?? "-",
+    entry.sessionId ?? "-",
+    entry.message,
+    ...details,
+    entry.error ? `- ${entry.error.replace(/\s+/g, " ")}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,222 @@
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { Sink } from "./sinks.js";
+import { markMessagesSynced, TranscriptCursor } from "./transcript.js";
+import { DEFAULT_PROFILE } from "./config.js";
+import { uploadedImages } from "./images.js";
+import { logInfo } from "./log.js";
+import { SessionData, MessageData } from "./types.js";
+
+const OUTBOX_DIR = join(homedir(), ".config", "droid-sync", "outbox");
+
+// Retry delay doubles per attempt: 30s, 1m, 2m, ... capped at 1h
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// An entry being sent is renamed to .inflight so no other flusher picks it up.
+// One untouched for this long belongs to a flusher that died and is put back.
+const INFLIGHT_STALE_MS = 10 * 60 * 1000;
+
+export interface OutboxEntry {
+  id: string;
+  // Destination profile; missing on entries written before profiles existed
+  profile?: string;
+  sessionId: string;
+  sessions: SessionData[];
+  messages: MessageData[];
+  messageIds: string[];
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface FlushResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+function getEntryFile(id: string, inflight = false): string {
+  return join(OUTBOX_DIR, `${id}.${inflight ? "inflight" : "json"}`);
+}
+
+function saveEntry(entry: OutboxEntry, inflight = false): void {
+  if (!existsSync(OUTBOX_DIR)) {
+    mkdirSync(OUTBOX_DIR, { recursive: true });
+  }
+  // Write then rename so a crash never leaves a half-written entry behind
+  const file = getEntryFile(entry.id, inflight);
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, JSON.stringify(entry));
+  renameSync(tmp, file);
+}
+
+// Take an entry for sending; fails when another flusher already has it or delivered it
+function claimEntry(id: string): OutboxEntry | null {
+  const file = getEntryFile(id, true);
+  try {
+    renameSync(getEntryFile(id), file);
+  } catch {
+    return null;
+  }
+  try {
+    const now = new Date();
+    utimesSync(file, now, now);
+    // Read again: the copy loaded earlier may predate another flusher's update
+    return JSON.parse(readFileSync(file, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+// Hand a claimed entry back for a later attempt
+function releaseEntry(entry: OutboxEntry): void {
+  saveEntry(entry, true);
+  renameSync(getEntryFile(entry.id, true), getEntryFile(entry.id));
+}
+
+function removeEntry(id: string): void {
+  try {
+    unlinkSync(getEntryFile(id, true));
+  } catch {
+    // Already gone
+  }
+}
+
+// Put back entries whose flusher died mid-send
+function recoverStaleEntries(): void {
+  if (!existsSync(OUTBOX_DIR)) return;
+  for (const file of readdirSync(OUTBOX_DIR).filter((f) => f.endsWith(".inflight"))) {
+    const path = join(OUTBOX_DIR, file);
+    try {
+      if (Date.now() - statSync(path).mtimeMs > INFLIGHT_STALE_MS) {
+        renameSync(path, path.replace(/\.inflight$/, ".json"));
+      }
+    } catch {
+      // Finished or recovered by someone else meanwhile
+    }
+  }
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+export function loadOutbox(): OutboxEntry[] {
+  if (!existsSync(OUTBOX_DIR)) {
+    return [];
+  }
+
+  const entries: OutboxEntry[] = [];
+  // Entry IDs start with a timestamp, so sorting keeps the original send order.
+  // Entries being sent right now are still pending delivery, so they are listed too.
+  const files = readdirSync(OUTBOX_DIR)
+    .filter((f) => f.endsWith(".json") || f.endsWith(".inflight"))
+    .sort();
+
+  for (const file of files) {
+    try {
+      entries.push(JSON.parse(readFileSync(join(OUTBOX_DIR, file), "utf-8")));
+    } catch {
+      // Skip unreadable entries
+    }
+  }
+  return entries;
+}
+
+function entryProfile(entry: OutboxEntry): string {
+  return entry.profile ?? DEFAULT_PROFILE;
+}
+
+export function getOutboxDepth(profile?: string): number {
+  const entries = loadOutbox();
+  return profile ? entries.filter((e) => entryProfile(e) === profile).length : entries.length;
+}
+
+export function enqueue(opts: {
+  profile?: string;
+  sessionId: string;
+  sessions: SessionData[];
+  messages: MessageData[];
+  messageIds: string[];
+  cursor?: TranscriptCursor;
+  error?: unknown;
+}): OutboxEntry {
+  const now = Date.now();
+  const entry: OutboxEntry = {
+    id: `${now}-${randomBytes(4).toString("hex")}`,
+    profile: opts.profile,
+    sessionId: opts.sessionId,
+    sessions: opts.sessions,
+    messages: opts.messages,
+    messageIds: opts.messageIds,
+    attempts: 1,
+    createdAt: new Date(now).toISOString(),
+    nextAttemptAt: new Date(now + retryDelay(1)).toISOString(),
+    lastError: opts.error !== undefined ? String(opts.error) : undefined,
+  };
+  saveEntry(entry);
+
+  // The outbox now owns delivery of these messages, so later Stops must not
+  // extract and queue them a second time
+  markMessagesSynced(opts.sessionId, opts.messageIds, opts.cursor, opts.profile, uploadedImages(opts.messages));
+  return entry;
+}
+
+// Deliver pending entries for one profile through that profile's sink
+export async function flushOutbox(
+  sink: Sink,
+  opts: { profile?: string; force?: boolean } = {}
+): Promise<FlushResult> {
+  const result: FlushResult = { sent: 0, failed: 0, skipped: 0 };
+  const profile = opts.profile ?? DEFAULT_PROFILE;
+  const now = Date.now();
+
+  recoverStaleEntries();
+  for (const listed of loadOutbox()) {
+    if (entryProfile(listed) !== profile) continue;
+    if (!opts.force && Date.parse(listed.nextAttemptAt) > now) {
+      result.skipped++;
+      continue;
+    }
+
+    // Workers of other sessions and `droid-sync flush` may be flushing too
+    const entry = claimEntry(listed.id);
+    if (!entry) continue;
+
+    try {
+      await sink.syncBatch(entry.sessions, entry.messages, (sent) => {
+        // Shrink the entry as chunks land so a retry only sends what's left
+        entry.sessions = [];
+        entry.messages = entry.messages.slice(sent.length);
+        saveEntry(entry, true);
+      });
+      removeEntry(entry.id);
+      result.sent++;
+    } catch (e) {
+      entry.attempts++;
+      entry.lastError = String(e);
+      entry.nextAttemptAt = new Date(Date.now() + retryDelay(entry.attempts)).toISOString();
+      releaseEntry(entry);
+      result.failed++;
+    }
+  }
+
+  if (result.sent > 0 || result.failed > 0) {
+    logInfo("outbox", `Flushed outbox: ${result.sent} sent, ${result.failed} failed`, { profile });
+  }
+  return result;
+}
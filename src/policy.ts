@@ -0,0 +1,151 @@
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { Config, RedactionConfig, CONFIG_FILE, getActiveProfileName, expandHome } from "./config.js";
+import { hasEnvOverride } from "./schema.js";
+import { checkRedactionPatterns } from "./redact.js";
+
+export const PROJECT_CONFIG_FILE = ".droid-sync.json";
+
+// Repo-level overrides in .droid-sync.json. These can only narrow what the
+// user's config allows, so a cloned repo can't opt itself into more syncing.
+export interface ProjectConfig {
+  enabled?: boolean;
+  syncToolCalls?: boolean;
+  syncThinking?: boolean;
+  redaction?: Pick<RedactionConfig, "patterns">;
+}
+
+export interface ProjectPolicy {
+  enabled: boolean;
+  // Why sync is disabled, for `droid-sync status`
+  reason?: string;
+  syncToolCalls: boolean;
+  syncThinking: boolean;
+  redaction: RedactionConfig;
+  // Profiles the session is synced to
+  profiles: string[];
+  projectFile?: string;
+  // Settings that are skipped because they are invalid, for `status` and `doctor`
+  warnings: string[];
+}
+
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  const pattern = expandHome(glob).replace(/\/+$/, "");
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` also matches zero directories
+        const slash = pattern[i + 2] === "/";
+        source += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// A pattern matches a directory if it matches the directory or any of its ancestors,
+// so `~/clients/*` also covers `~/clients/acme/packages/api`
+function matchesAny(cwd: string, patterns: string[]): boolean {
+  const regexes = patterns.map(globToRegExp);
+  let dir = resolve(cwd);
+  while (true) {
+    if (regexes.some((re) => re.test(dir))) return true;
+    const parent = dirname(dir);
+    if (parent === dir) return false;
+    dir = parent;
+  }
+}
+
+export function findProjectConfig(cwd: string): { path: string; config: ProjectConfig } | null {
+  let dir = resolve(cwd);
+  while (true) {
+    const file = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(file)) {
+      try {
+        return { path: file, config: JSON.parse(readFileSync(file, "utf-8")) as ProjectConfig };
+      } catch {
+        // A broken project file disables sync rather than silently ignoring its rules
+        return { path: file, config: { enabled: false } };
+      }
+    }
+    // Don't look above the repository root
+    if (existsSync(join(dir, ".git"))) return null;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// DROID_SYNC_PROFILE (comma-separated) wins, then the first matching project rule,
+// then the active profile
+function resolveProfiles(cwd: string | undefined, config: Config): string[] {
+  const fromEnv = process.env.DROID_SYNC_PROFILE?.split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+  if (fromEnv && fromEnv.length > 0) return fromEnv;
+
+  if (cwd) {
+    for (const rule of config.projects?.rules ?? []) {
+      const patterns = Array.isArray(rule.match) ? rule.match : [rule.match];
+      if (matchesAny(cwd, patterns) && rule.profiles.length > 0) return rule.profiles;
+    }
+  }
+
+  return [getActiveProfileName(config)];
+}
+
+export function resolvePolicy(cwd: string | undefined, config: Config): ProjectPolicy {
+  const policy: ProjectPolicy = {
+    enabled: true,
+    syncToolCalls: config.syncToolCalls ?? true,
+    syncThinking: config.syncThinking ?? false,
+    redaction: config.redaction ?? {},
+    profiles: resolveProfiles(cwd, config),
+    warnings: checkRedactionPatterns(config.redaction ?? {}).map((problem) => `${problem} in ${CONFIG_FILE}`),
+  };
+
+  if (!cwd) return policy;
+
+  const include = config.projects?.include ?? [];
+  const exclude = config.projects?.exclude ?? [];
+
+  if (include.length > 0 && !matchesAny(cwd, include)) {
+    return { ...policy, enabled: false, reason: "not matched by projects.include" };
+  }
+  if (exclude.length > 0 && matchesAny(cwd, exclude)) {
+    return { ...policy, enabled: false, reason: "matched by projects.exclude" };
+  }
+
+  const project = findProjectConfig(cwd);
+  if (!project) return policy;
+
+  const { config: repo } = project;
+  policy.projectFile = project.path;
+
+  if (repo.enabled === false) {
+    return { ...policy, enabled: false, reason: `disabled by ${project.path}` };
+  }
+  // Environment variables are set by the user, so they take precedence over the repo
+  if (repo.syncToolCalls === false && !hasEnvOverride("syncToolCalls")) policy.syncToolCalls = false;
+  if (repo.syncThinking === false && !hasEnvOverride("syncThinking")) policy.syncThinking = false;
+  if (repo.redaction) {
+    const patterns = repo.redaction.patterns;
+    policy.warnings.push(...checkRedactionPatterns({ patterns }).map((problem) => `${problem} in ${project.path}`));
+    policy.redaction = {
+      ...policy.redaction,
+      patterns: [...(policy.redaction.patterns ?? []), ...(Array.isArray(patterns) ? patterns : [])],
+    };
+  }
+
+  return policy;
+}
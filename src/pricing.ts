@@ -0,0 +1,82 @@
+import { SessionSettings } from "./types.js";
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheWrite?: number;
+  cacheRead?: number;
+  // Defaults to the output rate
+  reasoning?: number;
+}
+
+// List prices. Keys are matched against SessionSettings.model by exact name
+// first, then as a prefix followed only by a snapshot suffix (see SNAPSHOT_SUFFIX).
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-5-codex": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cacheRead: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5 },
+  o3: { input: 2, output: 8, cacheRead: 0.5 },
+  "o4-mini": { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cacheRead: 0.31 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cacheRead: 0.075 },
+};
+
+// Dates, revisions and aliases of one model: -20250929, -2025-04-16, @20241022,
+// -preview-06-05, -002, -v1:0, -latest. Anything else (o3-pro, claude-opus-4-6)
+// may be a different model, and a wrong price is worse than none.
+const SNAPSHOT_SUFFIX = /^(?:[-@](?:\d{8}|\d{4}-\d{2}-\d{2}|\d{2}-\d{2}|\d{3}|v\d+(?::\d+)?|latest|preview|exp))+$/;
+
+export function findPricing(
+  model: string | undefined,
+  overrides: Record<string, ModelPricing> = {}
+): ModelPricing | undefined {
+  if (!model) return undefined;
+  const table = { ...DEFAULT_PRICING, ...overrides };
+  const name = model.toLowerCase();
+
+  if (table[model]) return table[model];
+  if (table[name]) return table[name];
+
+  let best: string | undefined;
+  for (const key of Object.keys(table)) {
+    const matches = name.startsWith(key.toLowerCase()) && SNAPSHOT_SUFFIX.test(name.slice(key.length));
+    if (matches && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? table[best] : undefined;
+}
+
+/**
+ * Estimate session cost in USD from the token usage in .settings.json.
+ * Returns undefined for models without a known price rather than reporting $0.
+ */
+export function estimateCost(
+  model: string | undefined,
+  usage: SessionSettings["tokenUsage"],
+  overrides?: Record<string, ModelPricing>
+): number | undefined {
+  const pricing = findPricing(model, overrides);
+  if (!pricing || !usage) return undefined;
+
+  const cost =
+    (usage.inputTokens ?? 0) * pricing.input +
+    (usage.outputTokens ?? 0) * pricing.output +
+    (usage.cacheCreationTokens ?? 0) * (pricing.cacheWrite ?? pricing.input) +
+    (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input) +
+    (usage.thinkingTokens ?? 0) * (pricing.reasoning ?? pricing.output);
+
+  // Round to a hundredth of a cent
+  return Math.round((cost / 1_000_000) * 10_000) / 10_000;
+}
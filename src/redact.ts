@@ -0,0 +1,223 @@
+import { RedactionConfig } from "./config.js";
+
+const REDACTED = "[REDACTED]";
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  // Builds the replacement; defaults to replacing the whole match
+  replace?: (match: string, ...groups: string[]) => string;
+}
+
+// Keep the variable name so `FOO_TOKEN=[REDACTED]` still reads sensibly
+const keepName = (_match: string, name: string, sep: string) => `${name}${sep}${REDACTED}`;
+
+const BUILTIN_DETECTORS: Detector[] = [
+  { name: "private-key", pattern: /-----BEGIN [A-Z ]+-----[\s\S]+?-----END [A-Z ]+-----/g },
+  {
+    name: "gcp-service-account",
+    pattern: /("private_key"\s*:\s*)"[^"]+"/g,
+    replace: (_match, prefix) => `${prefix}"${REDACTED}"`,
+  },
+  { name: "gcp-api-key", pattern: /\bAIza[\w-]{35}\b/g },
+  { name: "aws-access-key-id", pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { name: "jwt", pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/g },
+  {
+    name: "connection-string",
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)[^\s@/]+(@)/gi,
+    replace: (_match, prefix, at) => `${prefix}${REDACTED}${at}`,
+  },
+  {
+    name: "env-assignment",
+    pattern:
+      /\b([A-Z0-9_]*(?:SECRET|PASSWORD|PASSWD|TOKEN|API_KEY|APIKEY|PRIVATE_KEY|ACCESS_KEY|CREDENTIALS?)[A-Z0-9_]*)(\s*[=:]\s*)["']?[^\s"']{8,}["']?/gi,
+    replace: keepName,
+  },
+  { name: "keyword", pattern: /(?:api[_-]?key|apikey|secret|password|token|auth)[=:\s]+["']?[\w\-./+=]{8,}["']?/gi },
+  { name: "provider-key", pattern: /(?:sk-|pk_|rk_)[\w\-]{20,}/g },
+  { name: "github-token", pattern: /ghp_[\w]{36}/g },
+  { name: "slack-token", pattern: /xoxb-[\w\-]+/g },
+  {
+    name: "webhook-url",
+    pattern: /\b(hooks\.slack\.com\/(?:services|workflows|triggers)\/(?:[\w-]+\/)+|discord(?:app)?\.com\/api\/webhooks\/\d+\/)[\w-]+/g,
+    replace: (_match, prefix) => `${prefix}${REDACTED}`,
+  },
+];
+
+// Object keys whose string values are always treated as secrets in tool args
+const SENSITIVE_KEY = /^(?:password|passwd|secret|token|api[_-]?key|apikey|private[_-]?key|access[_-]?key|credentials?)$/i;
+
+// "/" is part of base64, so a candidate may be one token or a run of path segments
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/=_-]{32,}/g;
+const ENTROPY_MIN_LENGTH = 32;
+// Bits per character; random base62 of this length scores about 4.7, camelCase identifiers below 4.3
+const ENTROPY_THRESHOLD = 4.5;
+
+// How each kind of user-supplied regex source is compiled
+const CUSTOM_PATTERN = { wrap: (source: string) => source, flags: "g" };
+const ALLOWLIST_PATTERN = { wrap: (source: string) => `^(?:${source})$`, flags: "" };
+
+function compile(source: unknown, kind: typeof CUSTOM_PATTERN): RegExp | string {
+  if (typeof source !== "string") return "not a string";
+  try {
+    return new RegExp(kind.wrap(source), kind.flags);
+  } catch (e) {
+    // "Invalid regular expression: /(/g: Unterminated group" → "Unterminated group"
+    return (e as Error).message.replace(/^Invalid regular expression: \/.*\/\w*: /, "");
+  }
+}
+
+/**
+ * Problems with the custom patterns and allowlist in `config`, one message per
+ * entry. The Redactor skips these entries, so the rest still apply.
+ */
+export function checkRedactionPatterns(config: RedactionConfig): string[] {
+  const problems: string[] = [];
+  for (const [setting, sources, kind] of [
+    ["patterns", config.patterns, CUSTOM_PATTERN],
+    ["allowlist", config.allowlist, ALLOWLIST_PATTERN],
+  ] as const) {
+    if (sources === undefined) continue;
+    if (!Array.isArray(sources)) {
+      problems.push(`redaction.${setting} must be a list of regular expressions`);
+      continue;
+    }
+    for (const source of sources) {
+      const compiled = compile(source, kind);
+      if (typeof compiled === "string") {
+        problems.push(`redaction.${setting}: ${JSON.stringify(source)} is not a valid regular expression (${compiled})`);
+      }
+    }
+  }
+  return problems;
+}
+
+// Compiled sources, leaving out the invalid ones checkRedactionPatterns reports
+function compileAll(sources: unknown, kind: typeof CUSTOM_PATTERN): RegExp[] {
+  if (!Array.isArray(sources)) return [];
+  return sources.map((source) => compile(source, kind)).filter((re): re is RegExp => re instanceof RegExp);
+}
+
+export interface RedactionResult<T> {
+  value: T;
+  count: number;
+}
+
+function shannonEntropy(text: string): number {
+  const freq = new Map<string, number>();
+  for (const ch of text) {
+    freq.set(ch, (freq.get(ch) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const n of freq.values()) {
+    const p = n / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// A file name follows, e.g. the "index" of index.tsx
+function extensionFollows(text: string, end: number): boolean {
+  return /^\.[A-Za-z]\w*/.test(text.slice(end));
+}
+
+/**
+ * Judge one entropy candidate. A token with no path-like segments (e.g. an AWS
+ * secret, which may contain "/") is judged whole. Otherwise only the last
+ * segment is: directories are followed by "/" and file names by an extension,
+ * but the end of a URL path is where webhook and signed-URL tokens live.
+ */
+function redactCandidate(match: string, followedByExtension: boolean, allowed: (text: string) => boolean): string {
+  const segments = match.split("/");
+  // Directory names are mostly plain lower-case words: src, services, feature
+  const pathLike =
+    segments.length > 1 && (segments.includes("") || segments.some((segment) => /^[a-z]{3,}$/.test(segment)));
+  if (!pathLike && !followedByExtension) {
+    return looksRandom(match) && !allowed(match) ? REDACTED : match;
+  }
+
+  const last = segments[segments.length - 1];
+  if (followedByExtension || last.length < ENTROPY_MIN_LENGTH || !looksRandom(last) || allowed(last)) return match;
+  return `${match.slice(0, match.length - last.length)}${REDACTED}`;
+}
+
+function looksRandom(token: string): boolean {
+  // Require mixed case and digits so paths, words, git SHAs and UUIDs pass through
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) return false;
+  return shannonEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+export class Redactor {
+  private detectors: Detector[];
+  private allowlist: RegExp[];
+  private entropy: boolean;
+
+  constructor(config: RedactionConfig = {}) {
+    const custom = compileAll(config.patterns, CUSTOM_PATTERN).map((pattern, i) => ({ name: `custom-${i}`, pattern }));
+    this.detectors = [...(config.builtins === false ? [] : BUILTIN_DETECTORS), ...custom];
+    this.allowlist = compileAll(config.allowlist, ALLOWLIST_PATTERN);
+    this.entropy = config.entropy ?? true;
+  }
+
+  private isAllowed(match: string): boolean {
+    return this.allowlist.some((re) => re.test(match));
+  }
+
+  redactText(text: string): RedactionResult<string> {
+    if (!text) return { value: text, count: 0 };
+
+    let count = 0;
+    let result = text;
+    for (const detector of this.detectors) {
+      result = result.replace(detector.pattern, (match: string, ...rest: unknown[]) => {
+        if (match.includes(REDACTED) || this.isAllowed(match)) return match;
+        count++;
+        // Capture groups come before the numeric match offset
+        const groups = rest.slice(0, rest.findIndex((g) => typeof g === "number")) as string[];
+        return detector.replace ? detector.replace(match, ...groups) : REDACTED;
+      });
+    }
+
+    if (this.entropy) {
+      result = result.replace(ENTROPY_CANDIDATE, (match: string, offset: number, whole: string) => {
+        const redacted = redactCandidate(match, extensionFollows(whole, offset + match.length), (text) =>
+          this.isAllowed(text)
+        );
+        if (redacted !== match) count++;
+        return redacted;
+      });
+    }
+
+    return { value: result, count };
+  }
+
+  /** Redact every string inside a JSON-like value, e.g. tool args. */
+  redactValue<T>(value: T): RedactionResult<T> {
+    let count = 0;
+
+    const walk = (v: unknown, key?: string): unknown => {
+      if (typeof v === "string") {
+        if (key && SENSITIVE_KEY.test(key) && v && !this.isAllowed(v)) {
+          count++;
+          return REDACTED;
+        }
+        const r = this.redactText(v);
+        count += r.count;
+        return r.value;
+      }
+      if (Array.isArray(v)) {
+        return v.map((item) => walk(item));
+      }
+      if (typeof v === "object" && v !== null) {
+        const out: Record<string, unknown> = {};
+        for (const [k, child] of Object.entries(v)) {
+          out[k] = walk(child, k);
+        }
+        return out;
+      }
+      return v;
+    };
+
+    return { value: walk(value) as T, count };
+  }
+}
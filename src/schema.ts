@@ -0,0 +1,287 @@
+import { DEFAULT_MAX_IMAGE_BYTES, DEFAULT_MAX_SESSION_IMAGE_BYTES } from "./images.js";
+import { DEFAULT_WORKER_TIMEOUT_MS } from "./worker.js";
+
+// Settable config fields: their type, default, environment variable and validation.
+// Structured settings (profiles, pricing, projects, redaction patterns) are edited
+// in config.json directly.
+
+export const DEFAULT_MAX_TOOL_RESULT_SIZE = 10000;
+export const DEFAULT_HTTP_TIMEOUT_MS = 30000;
+export const DEFAULT_HTTP_RETRIES = 3;
+export const DEFAULT_BATCH_MAX_MESSAGES = 100;
+export const DEFAULT_BATCH_MAX_BYTES = 4 * 1024 * 1024;
+
+type FieldType = "boolean" | "integer" | "string" | "url" | "apiKey" | "enum";
+
+export interface ConfigField {
+  type: FieldType;
+  description: string;
+  default?: unknown;
+  env?: string;
+  values?: string[];
+  // Masked when printed
+  secret?: boolean;
+  // A repo's .droid-sync.json may set this, but only to turn it off
+  project?: boolean;
+}
+
+export const CONFIG_FIELDS: Record<string, ConfigField> = {
+  convexUrl: {
+    type: "url",
+    description: "Convex deployment URL of the default profile",
+    env: "DROID_SYNC_CONVEX_URL",
+  },
+  apiKey: {
+    type: "apiKey",
+    description: "OpenSync API key of the default profile",
+    env: "DROID_SYNC_API_KEY",
+    secret: true,
+  },
+  apiKeyCommand: {
+    type: "string",
+    description: "Command that prints the API key",
+    env: "DROID_SYNC_API_KEY_COMMAND",
+  },
+  apiKeyFile: {
+    type: "string",
+    description: "File that holds the API key",
+    env: "DROID_SYNC_API_KEY_FILE",
+  },
+  activeProfile: {
+    type: "string",
+    description: "Profile used when no project rule matches",
+  },
+  autoSync: {
+    type: "boolean",
+    description: "Sync from hooks",
+    default: true,
+    env: "DROID_SYNC_AUTO_SYNC",
+  },
+  backgroundSync: {
+    type: "boolean",
+    description: "Run hooks in a detached worker",
+    default: true,
+    env: "DROID_SYNC_BACKGROUND_SYNC",
+  },
+  workerTimeoutMs: {
+    type: "integer",
+    description: "Hard limit for one hook run",
+    default: DEFAULT_WORKER_TIMEOUT_MS,
+    env: "DROID_SYNC_WORKER_TIMEOUT_MS",
+  },
+  syncToolCalls: {
+    type: "boolean",
+    description: "Sync tool calls and their results",
+    default: true,
+    env: "DROID_SYNC_TOOL_CALLS",
+    project: true,
+  },
+  syncThinking: {
+    type: "boolean",
+    description: "Sync thinking blocks",
+    default: false,
+    env: "DROID_SYNC_THINKING",
+    project: true,
+  },
+  maxToolResultSize: {
+    type: "integer",
+    description: "Truncate tool results longer than this (0 = never)",
+    default: DEFAULT_MAX_TOOL_RESULT_SIZE,
+    env: "DROID_SYNC_MAX_TOOL_RESULT_SIZE",
+  },
+  "images.mode": {
+    type: "enum",
+    values: ["off", "metadata", "full"],
+    description: "How images are synced",
+    default: "metadata",
+    env: "DROID_SYNC_IMAGES",
+  },
+  "images.maxImageBytes": {
+    type: "integer",
+    description: "Largest image uploaded in full",
+    default: DEFAULT_MAX_IMAGE_BYTES,
+  },
+  "images.maxSessionBytes": {
+    type: "integer",
+    description: "Image bytes uploaded per session",
+    default: DEFAULT_MAX_SESSION_IMAGE_BYTES,
+  },
+  "http.timeoutMs": {
+    type: "integer",
+    description: "Timeout of one HTTP attempt",
+    default: DEFAULT_HTTP_TIMEOUT_MS,
+    env: "DROID_SYNC_HTTP_TIMEOUT_MS",
+  },
+  "http.retries": {
+    type: "integer",
+    description: "Retries after a network error, timeout, 429 or 5xx",
+    default: DEFAULT_HTTP_RETRIES,
+    env: "DROID_SYNC_HTTP_RETRIES",
+  },
+  "http.caFile": {
+    type: "string",
+    description: "Extra CA bundle (PEM) to trust",
+    env: "DROID_SYNC_CA_FILE",
+  },
+  "batch.maxMessages": {
+    type: "integer",
+    description: "Messages per sync request (0 = no limit)",
+    default: DEFAULT_BATCH_MAX_MESSAGES,
+    env: "DROID_SYNC_BATCH_MAX_MESSAGES",
+  },
+  "batch.maxBytes": {
+    type: "integer",
+    description: "Serialized bytes per sync request (0 = no limit)",
+    default: DEFAULT_BATCH_MAX_BYTES,
+    env: "DROID_SYNC_BATCH_MAX_BYTES",
+  },
+  "redaction.builtins": {
+    type: "boolean",
+    description: "Use the built-in secret detectors",
+    default: true,
+  },
+  "redaction.entropy": {
+    type: "boolean",
+    description: "Redact long random-looking tokens",
+    default: true,
+  },
+};
+
+const TRUE_VALUES = new Set(["true", "1", "yes", "on"]);
+const FALSE_VALUES = new Set(["false", "0", "no", "off"]);
+
+export function getField(key: string): ConfigField {
+  const field = CONFIG_FIELDS[key];
+  if (!field) {
+    throw new Error(`Unknown config key "${key}" (one of: ${Object.keys(CONFIG_FIELDS).join(", ")})`);
+  }
+  return field;
+}
+
+/**
+ * Parse a value typed on the command line or read from the environment.
+ * Throws with a description of what was expected.
+ */
+export function parseValue(key: string, raw: string): unknown {
+  const field = getField(key);
+  const value = raw.trim();
+
+  switch (field.type) {
+    case "boolean":
+      if (TRUE_VALUES.has(value.toLowerCase())) return true;
+      if (FALSE_VALUES.has(value.toLowerCase())) return false;
+      throw new Error(`${key} must be true or false`);
+    case "integer": {
+      const n = Number(value);
+      if (!/^\d+$/.test(value) || !Number.isSafeInteger(n)) {
+        throw new Error(`${key} must be a whole number of 0 or more`);
+      }
+      return n;
+    }
+    case "enum":
+      if (!field.values!.includes(value)) {
+        throw new Error(`${key} must be one of: ${field.values!.join(", ")}`);
+      }
+      return value;
+    default:
+      validateValue(key, value);
+      return value;
+  }
+}
+
+// Check a value as stored in a config file
+export function validateValue(key: string, value: unknown): void {
+  const field = getField(key);
+  switch (field.type) {
+    case "boolean":
+      if (typeof value !== "boolean") throw new Error(`${key} must be true or false`);
+      return;
+    case "integer":
+      if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+        throw new Error(`${key} must be a whole number of 0 or more`);
+      }
+      return;
+    case "enum":
+      if (typeof value !== "string" || !field.values!.includes(value)) {
+        throw new Error(`${key} must be one of: ${field.values!.join(", ")}`);
+      }
+      return;
+  }
+
+  if (typeof value !== "string" || !value) throw new Error(`${key} must be a non-empty string`);
+  if (field.type === "url") {
+    let url: URL | undefined;
+    try {
+      url = new URL(value);
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+      throw new Error(`${key} must be an http(s) URL, e.g. https://your-project.convex.cloud`);
+    }
+  }
+  if (field.type === "apiKey" && !value.startsWith("osk_")) {
+    throw new Error(`${key} must start with osk_`);
+  }
+}
+
+// Values at dotted keys ("images.mode") of a plain JSON object
+export function getPath(obj: Record<string, unknown>, key: string): unknown {
+  let current: unknown = obj;
+  for (const part of key.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+export function setPath(obj: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split(".");
+  let current = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (typeof current[part] !== "object" || current[part] === null) current[part] = {};
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+// Remove a dotted key, dropping parent objects it leaves empty
+export function unsetPath(obj: Record<string, unknown>, key: string): boolean {
+  const [head, ...rest] = key.split(".");
+  if (!(head in obj)) return false;
+  if (rest.length === 0) {
+    delete obj[head];
+    return true;
+  }
+
+  const child = obj[head];
+  if (typeof child !== "object" || child === null) return false;
+  const removed = unsetPath(child as Record<string, unknown>, rest.join("."));
+  if (Object.keys(child).length === 0) delete obj[head];
+  return removed;
+}
+
+interface EnvOverride {
+  variable: string;
+  value?: unknown;
+  // Set instead of value when the variable doesn't parse; the override is then ignored
+  error?: string;
+}
+
+// The field's environment variable, if it is set
+export function readEnv(key: string): EnvOverride | null {
+  const variable = CONFIG_FIELDS[key]?.env;
+  const raw = variable ? process.env[variable] : undefined;
+  if (!variable || raw === undefined || raw === "") return null;
+  try {
+    return { variable, value: parseValue(key, raw) };
+  } catch (e) {
+    return { variable, error: (e as Error).message };
+  }
+}
+
+// Whether a valid environment variable overrides the field
+export function hasEnvOverride(key: string): boolean {
+  const env = readEnv(key);
+  return env !== null && env.error === undefined;
+}
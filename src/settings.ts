@@ -0,0 +1,218 @@
+import { copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { HOOK_EVENTS } from "./hooks.js";
+
+// Hook registrations in Factory's settings.json, either for the user or for one project
+export type HookScope = "user" | "project";
+
+interface HookCommand {
+  type?: string;
+  command?: string;
+  [key: string]: unknown;
+}
+
+interface HookMatcher {
+  matcher?: string;
+  hooks?: HookCommand[];
+  [key: string]: unknown;
+}
+
+type FactorySettings = Record<string, unknown> & { hooks?: Record<string, HookMatcher[]> };
+
+export interface HookStatus {
+  scope: HookScope;
+  path: string;
+  // Unparseable settings are never rewritten
+  invalid?: string;
+  // droid-sync commands per event, as written in the file
+  registered: Record<string, string[]>;
+  missing: string[];
+  duplicates: string[];
+  // Entries that don't match what `hooks install` writes (old command form, unknown event, no matcher)
+  stale: string[];
+}
+
+export function getSettingsPath(scope: HookScope, cwd = process.cwd()): string {
+  return scope === "user" ? join(homedir(), ".factory", "settings.json") : join(cwd, ".factory", "settings.json");
+}
+
+export function hookCommand(event: string): string {
+  return `droid-sync hook ${event}`;
+}
+
+function isDroidSyncCommand(hook: HookCommand): boolean {
+  return typeof hook?.command === "string" && /(^|[\s/])droid-sync(\.js)?\s/.test(hook.command);
+}
+
+// Accepts event names in any case, e.g. "stop" or "posttooluse"
+export function parseEvents(names: string): string[] {
+  return names
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => {
+      const event = HOOK_EVENTS.find((e) => e.toLowerCase() === name.toLowerCase());
+      if (!event) {
+        throw new Error(`Unknown hook event "${name}" (one of: ${HOOK_EVENTS.join(", ")})`);
+      }
+      return event;
+    });
+}
+
+function readSettings(path: string): FactorySettings {
+  if (!existsSync(path)) return {};
+  let settings: unknown;
+  try {
+    settings = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (e) {
+    throw new Error(`${path} is not valid JSON: ${(e as Error).message}`);
+  }
+  if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+    throw new Error(`${path} is not a JSON object`);
+  }
+  return settings as FactorySettings;
+}
+
+function getHooks(settings: FactorySettings): Record<string, HookMatcher[]> {
+  const hooks = settings.hooks;
+  return typeof hooks === "object" && hooks !== null && !Array.isArray(hooks) ? hooks : {};
+}
+
+export function getHookStatus(scope: HookScope, cwd?: string): HookStatus {
+  const path = getSettingsPath(scope, cwd);
+  const status: HookStatus = {
+    scope,
+    path,
+    registered: {},
+    missing: [],
+    duplicates: [],
+    stale: [],
+  };
+
+  let settings: FactorySettings;
+  try {
+    settings = readSettings(path);
+  } catch (e) {
+    status.invalid = (e as Error).message;
+    return status;
+  }
+
+  for (const [event, matchers] of Object.entries(getHooks(settings))) {
+    if (!Array.isArray(matchers)) continue;
+    for (const matcher of matchers) {
+      for (const hook of Array.isArray(matcher?.hooks) ? matcher.hooks : []) {
+        if (!isDroidSyncCommand(hook)) continue;
+        const command = hook.command as string;
+        status.registered[event] = [...(status.registered[event] ?? []), command];
+
+        const expected =
+          HOOK_EVENTS.includes(event) &&
+          command === hookCommand(event) &&
+          (event !== "PostToolUse" || matcher.matcher === "*");
+        if (!expected) status.stale.push(`${event}: ${command}`);
+      }
+    }
+  }
+
+  status.missing = HOOK_EVENTS.filter((event) => !status.registered[event]);
+  status.duplicates = Object.keys(status.registered).filter((event) => status.registered[event].length > 1);
+  return status;
+}
+
+// Drop every droid-sync command, keeping other tools' hooks and settings untouched
+function removeDroidSyncHooks(hooks: Record<string, HookMatcher[]>): number {
+  let removed = 0;
+  for (const [event, matchers] of Object.entries(hooks)) {
+    if (!Array.isArray(matchers)) continue;
+
+    const kept: HookMatcher[] = [];
+    for (const matcher of matchers) {
+      if (!Array.isArray(matcher?.hooks)) {
+        kept.push(matcher);
+        continue;
+      }
+      const others = matcher.hooks.filter((hook) => !isDroidSyncCommand(hook));
+      removed += matcher.hooks.length - others.length;
+      if (others.length > 0) kept.push({ ...matcher, hooks: others });
+    }
+
+    if (kept.length > 0) {
+      hooks[event] = kept;
+    } else {
+      delete hooks[event];
+    }
+  }
+  return removed;
+}
+
+// Copy the file aside before changing it, e.g. settings.json.bak-2025-01-31T10-00-00-000Z
+function backup(path: string): string | undefined {
+  if (!existsSync(path)) return undefined;
+  const backupPath = `${path}.bak-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  copyFileSync(path, backupPath);
+  return backupPath;
+}
+
+function writeSettings(
+  path: string,
+  settings: FactorySettings,
+  before: string
+): { changed: boolean; backupPath?: string } {
+  const after = JSON.stringify(settings, null, 2);
+  if (after === before) return { changed: false };
+
+  const backupPath = backup(path);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, after);
+  return { changed: true, backupPath };
+}
+
+/**
+ * Register exactly `events` in the scope's settings.json. Existing droid-sync
+ * entries (stale, duplicated or for other events) are replaced, so running it
+ * again also repairs the file.
+ */
+export function installHooks(opts: { scope: HookScope; events?: string[]; cwd?: string }): {
+  path: string;
+  changed: boolean;
+  backupPath?: string;
+} {
+  const path = getSettingsPath(opts.scope, opts.cwd);
+  const settings = readSettings(path);
+  const before = JSON.stringify(settings, null, 2);
+
+  const hooks = getHooks(settings);
+  removeDroidSyncHooks(hooks);
+  for (const event of opts.events ?? HOOK_EVENTS) {
+    const matchers = Array.isArray(hooks[event]) ? hooks[event] : [];
+    matchers.push({
+      // Tool hooks need a matcher; "*" covers every tool
+      ...(event === "PostToolUse" ? { matcher: "*" } : {}),
+      hooks: [{ type: "command", command: hookCommand(event) }],
+    });
+    hooks[event] = matchers;
+  }
+  settings.hooks = hooks;
+
+  return { path, ...writeSettings(path, settings, before) };
+}
+
+export function uninstallHooks(opts: { scope: HookScope; cwd?: string }): {
+  path: string;
+  removed: number;
+  backupPath?: string;
+} {
+  const path = getSettingsPath(opts.scope, opts.cwd);
+  if (!existsSync(path)) return { path, removed: 0 };
+
+  const settings = readSettings(path);
+  const before = JSON.stringify(settings, null, 2);
+  const hooks = getHooks(settings);
+  const removed = removeDroidSyncHooks(hooks);
+  if (settings.hooks !== undefined) {
+    settings.hooks = hooks;
+  }
+
+  return { path, removed, backupPath: writeSettings(path, settings, before).backupPath };
+}
@@ -0,0 +1,336 @@
+import { accessSync, appendFileSync, constants, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { SyncClient } from "./api.js";
+import {
+  getConfig,
+  getProfile,
+  getActiveProfileName,
+  isConvexProfile,
+  expandHome,
+  JsonlProfile,
+  SqliteProfile,
+  WebhookProfile,
+  HttpConfig,
+  BatchConfig,
+} from "./config.js";
+import { SessionData, MessageData } from "./types.js";
+import { httpRequest, idempotencyKey, responseOk } from "./http.js";
+import { chunkBatch, sendChunks, OnChunk } from "./batch.js";
+
+// A destination that sessions and messages are synced to
+export interface Sink {
+  syncSession(session: SessionData): Promise<void>;
+  // Remote sinks split large syncs into several requests; `onChunk` runs after each
+  // one lands, so a failure part-way leaves the earlier messages delivered
+  syncBatch(sessions: SessionData[], messages: MessageData[], onChunk?: OnChunk): Promise<void>;
+  testConnection(): Promise<boolean>;
+  // Check the destination would accept a write (authenticated, without writing
+  // anything); throws with the reason on failure
+  verify?(): Promise<void>;
+}
+
+function ensureDir(file: string): void {
+  const dir = dirname(file);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+}
+
+export class JsonlSink implements Sink {
+  private path: string;
+
+  constructor(profile: JsonlProfile) {
+    this.path = expandHome(profile.path);
+  }
+
+  private append(records: { type: "session" | "message"; data: unknown }[]): void {
+    if (records.length === 0) return;
+    ensureDir(this.path);
+    const syncedAt = new Date().toISOString();
+    const lines = records.map((r) => JSON.stringify({ ...r, syncedAt }) + "\n").join("");
+    appendFileSync(this.path, lines);
+  }
+
+  async syncSession(session: SessionData): Promise<void> {
+    this.append([{ type: "session", data: session }]);
+  }
+
+  async syncBatch(sessions: SessionData[], messages: MessageData[], onChunk?: OnChunk): Promise<void> {
+    this.append([
+      ...sessions.map((data) => ({ type: "session" as const, data })),
+      ...messages.map((data) => ({ type: "message" as const, data })),
+    ]);
+    onChunk?.(messages);
+  }
+
+  async verify(): Promise<void> {
+    ensureDir(this.path);
+    accessSync(dirname(this.path), constants.W_OK);
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.verify();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// Minimal surface of node:sqlite's DatabaseSync that we use
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): { run(...params: unknown[]): unknown };
+}
+
+const SQLITE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    session_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS messages (
+    message_id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    timestamp TEXT,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS messages_session_id ON messages (session_id);
+`;
+
+export class SqliteSink implements Sink {
+  private path: string;
+  private db: SqliteDatabase | null = null;
+
+  constructor(profile: SqliteProfile) {
+    this.path = expandHome(profile.path);
+  }
+
+  private async open(): Promise<SqliteDatabase> {
+    if (this.db) return this.db;
+
+    // Loaded lazily: node:sqlite only exists on Node 22.13+ (22.5+ behind --experimental-sqlite)
+    let sqlite: { DatabaseSync: new (path: string) => SqliteDatabase };
+    try {
+      sqlite = await import("node:sqlite" as string);
+    } catch {
+      throw new Error("SQLite sink requires Node.js 22.13 or newer, or 22.5+ with NODE_OPTIONS=--experimental-sqlite (node:sqlite)");
+    }
+
+    ensureDir(this.path);
+    const db = new sqlite.DatabaseSync(this.path);
+    db.exec(SQLITE_SCHEMA);
+    this.db = db;
+    return db;
+  }
+
+  async syncSession(session: SessionData): Promise<void> {
+    await this.syncBatch([session], []);
+  }
+
+  async syncBatch(sessions: SessionData[], messages: MessageData[], onChunk?: OnChunk): Promise<void> {
+    const db = await this.open();
+    const now = new Date().toISOString();
+
+    const upsertSession = db.prepare(
+      `INSERT INTO sessions (session_id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (session_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    );
+    const upsertMessage = db.prepare(
+      `INSERT INTO messages (message_id, session_id, role, timestamp, data, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (message_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    );
+
+    db.exec("BEGIN");
+    try {
+      for (const s of sessions) {
+        upsertSession.run(s.sessionId, JSON.stringify(s), now);
+      }
+      for (const m of messages) {
+        upsertMessage.run(m.messageId, m.sessionId, m.role, m.timestamp ?? null, JSON.stringify(m), now);
+      }
+      db.exec("COMMIT");
+    } catch (e) {
+      db.exec("ROLLBACK");
+      throw e;
+    }
+    onChunk?.(messages);
+  }
+
+  async verify(): Promise<void> {
+    await this.open();
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.verify();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function lookup(context: Record<string, unknown>, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split(".")) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Fill "{{path}}" placeholders in a JSON template. A string that is exactly one
+ * placeholder is replaced by the raw value (objects and arrays included);
+ * placeholders inside longer strings are interpolated as text.
+ */
+export function renderTemplate(template: unknown, context: Record<string, unknown>): unknown {
+  if (typeof template === "string") {
+    const whole = template.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (whole) return lookup(context, whole[1]);
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+      const value = lookup(context, path);
+      if (value === undefined || value === null) return "";
+      return typeof value === "string" ? value : JSON.stringify(value);
+    });
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderTemplate(item, context));
+  }
+  if (typeof template === "object" && template !== null) {
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(template)) {
+      out[key] = renderTemplate(value, context);
+    }
+    return out;
+  }
+  return template;
+}
+
+const DEFAULT_WEBHOOK_TEMPLATE = {
+  event: "{{event}}",
+  source: "{{source}}",
+  sentAt: "{{sentAt}}",
+  sessions: "{{sessions}}",
+  messages: "{{messages}}",
+};
+
+export class WebhookSink implements Sink {
+  private profile: WebhookProfile;
+  private http?: HttpConfig;
+  private batch?: BatchConfig;
+
+  constructor(profile: WebhookProfile, http?: HttpConfig, batch?: BatchConfig) {
+    this.profile = profile;
+    this.http = http;
+    this.batch = batch;
+  }
+
+  private async send(event: "session" | "batch", sessions: SessionData[], messages: MessageData[]): Promise<void> {
+    const context = {
+      event,
+      source: "factory-droid",
+      sentAt: new Date().toISOString(),
+      session: sessions[0],
+      sessions,
+      messages,
+    };
+    const body = renderTemplate(this.profile.template ?? DEFAULT_WEBHOOK_TEMPLATE, context);
+
+    // Header values may reference environment variables, e.g. "Bearer {{env.WEBHOOK_TOKEN}}"
+    const headers = renderTemplate(this.profile.headers ?? {}, { env: process.env }) as Record<string, string>;
+
+    const payload = JSON.stringify(body);
+    const externalIds = [...sessions.map((s) => s.sessionId), ...messages.map((m) => m.messageId)];
+    const response = await httpRequest(this.profile.url, {
+      method: "POST",
+      label: `POST webhook (${event})`,
+      config: this.http,
+      headers: {
+        ...this.http?.headers,
+        "Content-Type": "application/json",
+        "Idempotency-Key": idempotencyKey(externalIds, payload),
+        ...headers,
+      },
+      body: payload,
+    });
+
+    if (!responseOk(response)) {
+      // Not the body: it can echo the payload back
+      throw new Error(`Webhook failed: HTTP ${response.status}`);
+    }
+  }
+
+  async syncSession(session: SessionData): Promise<void> {
+    await this.send("session", [session], []);
+  }
+
+  async syncBatch(sessions: SessionData[], messages: MessageData[], onChunk?: OnChunk): Promise<void> {
+    if (sessions.length === 0 && messages.length === 0) return;
+    await sendChunks(
+      chunkBatch(sessions, messages, this.batch),
+      (chunk) => this.send("batch", chunk.sessions, chunk.messages),
+      onChunk
+    );
+  }
+
+  async testConnection(): Promise<boolean> {
+    // Any HTTP response means the endpoint is reachable; only network errors count as failure
+    try {
+      await httpRequest(this.profile.url, {
+        method: "HEAD",
+        label: "HEAD webhook",
+        config: this.http,
+        headers: { ...this.http?.headers },
+        retries: 0,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+const sinkInstances = new Map<string, Sink>();
+
+export function getSink(profileName?: string): Sink | null {
+  const config = getConfig();
+  if (!config) return null;
+
+  const name = profileName ?? getActiveProfileName(config);
+  const cached = sinkInstances.get(name);
+  if (cached) return cached;
+
+  const profile = getProfile(config, name);
+  if (!profile) return null;
+
+  let sink: Sink;
+  if (isConvexProfile(profile)) {
+    sink = new SyncClient(config, profile);
+  } else if (profile.type === "jsonl") {
+    sink = new JsonlSink(profile);
+  } else if (profile.type === "sqlite") {
+    sink = new SqliteSink(profile);
+  } else if (profile.type === "webhook") {
+    sink = new WebhookSink(profile, config.http, config.batch);
+  } else {
+    return null;
+  }
+
+  sinkInstances.set(name, sink);
+  return sink;
+}
+
+export async function testConnection(profileName?: string): Promise<{ ok: boolean; error?: string }> {
+  const sink = getSink(profileName);
+  if (!sink) {
+    return { ok: false, error: profileName ? `Profile "${profileName}" is not configured` : "Not configured" };
+  }
+
+  const ok = await sink.testConnection();
+  return ok ? { ok: true } : { ok: false, error: "Connection failed" };
+}
@@ -1,29 +1,92 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import {
+  readFileSync,
+  readdirSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  closeSync,
+  fstatSync,
+} from "fs";
 import { homedir } from "os";
 import { join } from "path";
+import { createHash } from "crypto";
+import { DEFAULT_MAX_TOOL_RESULT_SIZE, DEFAULT_PROFILE, ImageConfig } from "./config.js";
+import { Redactor } from "./redact.js";
+import { emptyActivity, recordToolUse, recordToolError } from "./activity.js";
+import { ImageProcessor } from "./images.js";
+import { ConversationTree, emptyTree, addMessage, activePath, syncedParentId } from "./conversation.js";
 import {
   TranscriptEntry,
   TranscriptSessionStart,
   TranscriptMessage,
   TranscriptTextBlock,
   TranscriptToolUseBlock,
+  TranscriptToolResultBlock,
   MessageData,
+  MessageImage,
+  SessionActivity,
   SessionSettings,
 } from "./types.js";
 
-const SYNC_STATE_DIR = join(homedir(), ".config", "droid-sync", "state");
+export const SYNC_STATE_DIR = join(homedir(), ".config", "droid-sync", "state");
+
+// Each profile keeps its own state so a failure on one backend never marks
+// messages synced on another. The default profile keeps the original layout.
+function getSyncStateDir(profile?: string): string {
+  return !profile || profile === DEFAULT_PROFILE ? SYNC_STATE_DIR : join(SYNC_STATE_DIR, "profiles", profile);
+}
+
+function getSyncStateFile(sessionId: string, profile?: string): string {
+  return join(getSyncStateDir(profile), `${sessionId}.json`);
+}
 
-function getSyncStateFile(sessionId: string): string {
-  return join(SYNC_STATE_DIR, `${sessionId}.json`);
+// Bytes before the saved offset that are hashed to detect a rewritten transcript
+const TAIL_CHECK_BYTES = 256;
+
+// Position in the transcript file up to which everything has been synced
+export interface TranscriptCursor {
+  byteOffset: number;
+  tailHash: string;
+  messageCount: number;
+  toolCallCount: number;
+  sessionStart: TranscriptSessionStart | null;
+  activity?: SessionActivity;
+  tree?: ConversationTree;
+  // Tool calls whose result hasn't been seen yet, by tool_use id
+  pendingToolUses?: Record<string, string>;
+  // Live IDs taken so far per liveMessageKey (see extractNewMessages)
+  liveClaims?: Record<string, number>;
+  // Tool calls synced before their result was written, by tool_use id
+  unresolvedToolCalls?: Record<string, UnresolvedToolCall>;
+  // Length of syncedMessageIds when the cursor was saved
+  syncedCount?: number;
+}
+
+// A tool call as it was sent without a result, re-sent under the same ID once the result arrives
+export interface UnresolvedToolCall {
+  // Transcript-based ID recorded in syncedMessageIds
+  transcriptId: string;
+  // liveMessageKey of the call's name and input, for matching its PostToolUse
+  liveKey: string;
+  message: MessageData;
 }
 
 interface SyncState {
   syncedMessageIds: string[];
   lastSyncTime: string;
+  cursor?: TranscriptCursor;
+  // Messages already pushed live by UserPromptSubmit/PostToolUse, keyed by
+  // liveMessageKey in push order, so the transcript copy reuses (and updates)
+  // the same ID. Older state files hold a single ID per key.
+  liveMessageIds?: Record<string, string[] | string>;
+  // SHA-256 → byte size of images whose data was uploaded
+  uploadedImages?: Record<string, number>;
 }
 
-function loadSyncState(sessionId: string): SyncState {
-  const file = getSyncStateFile(sessionId);
+function loadSyncState(sessionId: string, profile?: string): SyncState {
+  const file = getSyncStateFile(sessionId, profile);
   if (!existsSync(file)) {
     return { syncedMessageIds: [], lastSyncTime: "" };
   }
@@ -34,22 +97,31 @@ function loadSyncState(sessionId: string): SyncState {
   }
 }
 
-function saveSyncState(sessionId: string, state: SyncState): void {
-  if (!existsSync(SYNC_STATE_DIR)) {
-    mkdirSync(SYNC_STATE_DIR, { recursive: true });
-  }
-  writeFileSync(getSyncStateFile(sessionId), JSON.stringify(state));
+// Sessions with saved state for a profile, most recently synced first
+export function listSyncStates(profile?: string): { sessionId: string; lastSyncTime: string; messages: number }[] {
+  const dir = getSyncStateDir(profile);
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".json"))
+    .map((entry) => {
+      const sessionId = entry.name.slice(0, -".json".length);
+      const state = loadSyncState(sessionId, profile);
+      return {
+        sessionId,
+        lastSyncTime: state.lastSyncTime ?? "",
+        messages: state.syncedMessageIds?.length ?? 0,
+      };
+    })
+    .sort((a, b) => b.lastSyncTime.localeCompare(a.lastSyncTime));
 }
 
-export function clearSyncState(sessionId: string): void {
-  const file = getSyncStateFile(sessionId);
-  if (existsSync(file)) {
-    try {
-      writeFileSync(file, "{}");
-    } catch {
-      // Ignore errors
-    }
+function saveSyncState(sessionId: string, state: SyncState, profile?: string): void {
+  const dir = getSyncStateDir(profile);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
   }
+  writeFileSync(getSyncStateFile(sessionId, profile), JSON.stringify(state));
 }
 
 export interface ParsedTranscript {
@@ -57,45 +129,142 @@ export interface ParsedTranscript {
   messages: TranscriptMessage[];
   messageCount: number;
   toolCallCount: number;
+  activity: SessionActivity;
+  // Parent/child structure of every message seen so far. extractNewMessages
+  // records the synced IDs on it, and it's saved with the cursor.
+  tree: ConversationTree;
+  // True when only lines appended since the last sync were read
+  incremental?: boolean;
+  // Live IDs already taken by the lines before this parse (empty after a full parse)
+  liveClaims?: Record<string, number>;
+  // Kept even after a full parse: those tool calls are already synced, just without a result
+  unresolvedToolCalls?: Record<string, UnresolvedToolCall>;
+  cursor?: TranscriptCursor;
+}
+
+function hashTail(fd: number, offset: number): string {
+  const start = Math.max(0, offset - TAIL_CHECK_BYTES);
+  const buffer = Buffer.alloc(offset - start);
+  readSync(fd, buffer, 0, buffer.length, start);
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+function readFrom(fd: number, offset: number, size: number): Buffer {
+  const buffer = Buffer.alloc(size - offset);
+  let read = 0;
+  while (read < buffer.length) {
+    const n = readSync(fd, buffer, read, buffer.length - read, offset + read);
+    if (n === 0) break;
+    read += n;
+  }
+  return buffer.subarray(0, read);
 }
 
-export function parseTranscript(transcriptPath: string): ParsedTranscript {
+/**
+ * Parse a transcript. When a sessionId is given and its sync state holds a
+ * cursor that still matches the file, only the lines appended since then are
+ * parsed; counts carry on from the cursor. A shrunk or rewritten file (e.g.
+ * after compaction) falls back to a full parse.
+ */
+export function parseTranscript(
+  transcriptPath: string,
+  opts: { sessionId?: string; profile?: string } = {}
+): ParsedTranscript {
   const result: ParsedTranscript = {
     sessionStart: null,
     messages: [],
     messageCount: 0,
     toolCallCount: 0,
+    activity: emptyActivity(),
+    tree: emptyTree(),
   };
+  let pendingToolUses: Record<string, string> = {};
 
   if (!existsSync(transcriptPath)) {
     return result;
   }
 
-  const content = readFileSync(transcriptPath, "utf-8");
-  const lines = content.trim().split("\n").filter(Boolean);
+  const fd = openSync(transcriptPath, "r");
+  try {
+    const size = fstatSync(fd).size;
+    let offset = 0;
+
+    const saved = opts.sessionId ? loadSyncState(opts.sessionId, opts.profile).cursor : undefined;
+    result.unresolvedToolCalls = saved?.unresolvedToolCalls;
+    if (saved && saved.byteOffset <= size && hashTail(fd, saved.byteOffset) === saved.tailHash) {
+      offset = saved.byteOffset;
+      result.sessionStart = saved.sessionStart;
+      result.messageCount = saved.messageCount;
+      result.toolCallCount = saved.toolCallCount;
+      result.activity = saved.activity ?? emptyActivity();
+      result.tree = saved.tree ?? emptyTree();
+      pendingToolUses = saved.pendingToolUses ?? {};
+      result.liveClaims = saved.liveClaims;
+      result.incremental = true;
+    }
 
-  for (const line of lines) {
-    try {
-      const entry = JSON.parse(line) as TranscriptEntry;
+    const chunk = readFrom(fd, offset, size);
+
+    // Only consume complete lines; a trailing line without a newline is kept
+    // only if it already parses (i.e. the writer is done with it)
+    let consumed = chunk.lastIndexOf(0x0a) + 1;
+    const lines = chunk.subarray(0, consumed).toString("utf-8").split("\n");
+    const trailing = chunk.subarray(consumed).toString("utf-8");
+    if (trailing.trim()) {
+      try {
+        JSON.parse(trailing);
+        lines.push(trailing);
+        consumed = chunk.length;
+      } catch {
+        // Still being written
+      }
+    }
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as TranscriptEntry;
 
-      if (entry.type === "session_start") {
-        result.sessionStart = entry;
-      } else if (entry.type === "message") {
-        result.messages.push(entry);
-        result.messageCount++;
+        if (entry.type === "session_start") {
+          result.sessionStart = entry;
+        } else if (entry.type === "message") {
+          result.messages.push(entry);
+          result.messageCount++;
+          addMessage(result.tree, entry);
 
-        // Count tool calls in assistant messages
-        if (entry.message.role === "assistant") {
+          // Count tool calls in assistant messages and collect what they touched
+          const cwd = result.sessionStart?.cwd;
           for (const block of entry.message.content) {
-            if (block.type === "tool_use") {
+            if (block.type === "tool_use" && entry.message.role === "assistant") {
               result.toolCallCount++;
+              recordToolUse(result.activity, block, cwd);
+              pendingToolUses[block.id] = block.name;
+            } else if (block.type === "tool_result" && pendingToolUses[block.tool_use_id]) {
+              if (block.is_error) {
+                recordToolError(result.activity, pendingToolUses[block.tool_use_id]);
+              }
+              delete pendingToolUses[block.tool_use_id];
             }
           }
         }
+      } catch {
+        // Skip malformed lines
       }
-    } catch {
-      // Skip malformed lines
     }
+
+    const byteOffset = offset + consumed;
+    result.cursor = {
+      byteOffset,
+      tailHash: hashTail(fd, byteOffset),
+      messageCount: result.messageCount,
+      toolCallCount: result.toolCallCount,
+      sessionStart: result.sessionStart,
+      activity: result.activity,
+      tree: result.tree,
+      pendingToolUses,
+    };
+  } finally {
+    closeSync(fd);
   }
 
   return result;
@@ -119,7 +288,7 @@ export function parseSessionSettings(transcriptPath: string): SessionSettings |
 
 export interface ExtractedMessages {
   newMessages: MessageData[];
-  allMessageIds: string[];
+  newMessageIds: string[];
 }
 
 export function extractNewMessages(opts: {
@@ -127,98 +296,270 @@ export function extractNewMessages(opts: {
   transcript: ParsedTranscript;
   syncToolCalls: boolean;
   syncThinking: boolean;
+  maxToolResultSize?: number;
+  redactor?: Redactor;
+  images?: ImageConfig;
+  profile?: string;
+  // Return every message, synced or not (used by export)
+  ignoreSyncState?: boolean;
 }): ExtractedMessages {
   const { sessionId, transcript, syncToolCalls, syncThinking } = opts;
-  const state = loadSyncState(sessionId);
-  const syncedSet = new Set(state.syncedMessageIds);
+  const maxToolResultSize = opts.maxToolResultSize ?? DEFAULT_MAX_TOOL_RESULT_SIZE;
+  const redactor = opts.redactor ?? new Redactor();
+  const state: SyncState = opts.ignoreSyncState
+    ? { syncedMessageIds: [], lastSyncTime: "" }
+    : loadSyncState(sessionId, opts.profile);
+
+  // After an incremental parse only IDs synced past the saved cursor can
+  // overlap with the new lines (e.g. a partly imported batch)
+  const syncedSet = new Set(
+    transcript.incremental ? state.syncedMessageIds.slice(state.cursor?.syncedCount ?? 0) : state.syncedMessageIds
+  );
+
+  // The n-th prompt or tool call with a given key takes the n-th live ID pushed
+  // under it, so identical calls (the same command run twice) keep apart
+  const live = state.liveMessageIds ?? {};
+  const liveClaims: Record<string, number> = { ...transcript.liveClaims };
+  const claimLiveId = (key: string): string | undefined => {
+    const taken = liveClaims[key] ?? 0;
+    liveClaims[key] = taken + 1;
+    return liveQueue(live, key)[taken];
+  };
+  const images = new ImageProcessor(opts.images, state.uploadedImages);
+
+  // Results usually arrive in the next (user) message, so index them up front
+  const toolResults = syncToolCalls ? collectToolResults(transcript) : new Map<string, string>();
 
   const newMessages: MessageData[] = [];
-  const allMessageIds: string[] = [...state.syncedMessageIds];
+  const newMessageIds: string[] = [];
+
+  // Tool calls synced mid-turn (SubagentStop, PreCompact) before their result
+  // existed go out again, under the same ID, once it shows up
+  const unresolved: Record<string, UnresolvedToolCall> = { ...transcript.unresolvedToolCalls };
+  for (const [toolUseId, call] of Object.entries(unresolved)) {
+    const output = toolResults.get(toolUseId);
+    if (output === undefined) continue;
+    const result = redactor.redactText(output);
+    newMessages.push({
+      ...call.message,
+      toolResult: truncate(result.value, maxToolResultSize),
+      redactionCount: (call.message.redactionCount ?? 0) + result.count,
+    });
+    newMessageIds.push(call.transcriptId);
+    delete unresolved[toolUseId];
+  }
 
-  for (const msg of transcript.messages) {
-    // Skip if already synced
-    if (syncedSet.has(msg.id)) {
-      continue;
-    }
+  const { tree } = transcript;
+  const finalPath = activePath(tree);
 
+  for (const msg of transcript.messages) {
+    // Already-synced messages are still walked so their tree node learns the IDs
+    // they were synced under (children point at those)
+    const synced = syncedSet.has(msg.id);
+    const node = tree.nodes[msg.id];
     const { role, content } = msg.message;
 
     // Extract text content
     let textContent = "";
+    let thinkingContent = "";
+    let imageCount = 0;
     const toolCalls: TranscriptToolUseBlock[] = [];
+    const messageImages: MessageImage[] = [];
 
     for (const block of content) {
       if (block.type === "text") {
         textContent += block.text;
       } else if (block.type === "tool_use" && syncToolCalls) {
         toolCalls.push(block);
-      } else if (block.type === "thinking" && syncThinking) {
-        // Could add thinking content if desired
+      } else if (block.type === "thinking" && syncThinking && role === "assistant") {
+        thinkingContent += (thinkingContent ? "\n\n" : "") + block.thinking;
+      } else if (block.type === "image" && images.enabled) {
+        imageCount++;
+        // Only count new images against the dedupe set and byte budget
+        const image = synced ? null : images.process(block);
+        if (image) messageImages.push(image);
       }
     }
 
-    // Add text message if there's content
-    if (textContent.trim()) {
-      newMessages.push({
-        sessionId,
-        messageId: msg.id,
-        source: "factory-droid",
-        role,
-        content: redactSensitive(textContent),
-        timestamp: msg.timestamp,
-      });
-      allMessageIds.push(msg.id);
+    const placement = {
+      parentMessageId: syncedParentId(tree, msg.id),
+      sequence: node?.sequence,
+      branch: node?.branch,
+      // Off the path to the latest message: an edited or retried turn
+      abandoned: finalPath.has(msg.id) ? undefined : true,
+    };
+    const sentIds: string[] = [];
+
+    // Add text message if there's content (reasoning alone is enough for assistant turns)
+    if (textContent.trim() || thinkingContent.trim() || imageCount > 0) {
+      // A prompt pushed live by UserPromptSubmit keeps its ID so the backend updates it
+      const liveId = role === "user" ? claimLiveId(liveMessageKey("prompt", textContent)) : undefined;
+      const messageId = liveId ?? msg.id;
+      if (!synced) {
+        const text = redactor.redactText(textContent);
+        const thinking = redactor.redactText(thinkingContent);
+        newMessages.push({
+          sessionId,
+          messageId,
+          source: "factory-droid",
+          role,
+          content: textContent.trim() ? text.value : undefined,
+          thinkingContent: thinkingContent.trim() ? thinking.value : undefined,
+          images: messageImages.length > 0 ? messageImages : undefined,
+          redactionCount: text.count + thinking.count,
+          timestamp: msg.timestamp,
+          ...placement,
+        });
+        newMessageIds.push(msg.id);
+      }
+      sentIds.push(messageId);
     }
 
-    // Add tool calls as separate messages
+    // Add tool calls as separate messages, each following the previous one
     for (const tool of toolCalls) {
       const toolMessageId = `${msg.id}-tool-${tool.id}`;
+      // Matched by tool_use id when the hook sent one, otherwise by name and input
+      const liveKey = liveMessageKey("tool", { name: tool.name, input: tool.input });
+      const liveId = liveQueue(live, liveMessageKey("tool", { id: tool.id }))[0] ?? claimLiveId(liveKey);
+      const messageId = liveId ?? toolMessageId;
       if (!syncedSet.has(toolMessageId)) {
-        newMessages.push({
+        const args = redactor.redactValue(tool.input);
+        const result = redactor.redactText(toolResults.get(tool.id) ?? "");
+        const message: MessageData = {
           sessionId,
-          messageId: toolMessageId,
+          messageId,
           source: "factory-droid",
           role: "assistant",
           toolName: tool.name,
-          toolArgs: tool.input,
+          toolArgs: args.value,
+          toolResult: toolResults.has(tool.id) ? truncate(result.value, maxToolResultSize) : undefined,
+          redactionCount: args.count + result.count,
           timestamp: msg.timestamp,
-        });
-        allMessageIds.push(toolMessageId);
+          ...placement,
+          parentMessageId: sentIds.at(-1) ?? placement.parentMessageId,
+        };
+        newMessages.push(message);
+        newMessageIds.push(toolMessageId);
+        if (!toolResults.has(tool.id)) {
+          unresolved[tool.id] = { transcriptId: toolMessageId, liveKey, message };
+        }
       }
+      sentIds.push(messageId);
+    }
+
+    if (node) {
+      node.sentIds = sentIds;
     }
   }
 
-  return { newMessages, allMessageIds };
+  if (transcript.cursor) {
+    transcript.cursor.liveClaims = liveClaims;
+    transcript.cursor.unresolvedToolCalls = unresolved;
+  }
+  return { newMessages, newMessageIds };
 }
 
-export function markMessagesSynced(sessionId: string, messageIds: string[]): void {
-  const state = loadSyncState(sessionId);
-  const syncedSet = new Set(state.syncedMessageIds);
+function collectToolResults(transcript: ParsedTranscript): Map<string, string> {
+  const results = new Map<string, string>();
+  for (const msg of transcript.messages) {
+    for (const block of msg.message.content) {
+      if (block.type === "tool_result") {
+        results.set(block.tool_use_id, toolResultText(block));
+      }
+    }
+  }
+  return results;
+}
 
-  for (const id of messageIds) {
-    syncedSet.add(id);
+function toolResultText(block: TranscriptToolResultBlock): string {
+  const content: unknown = block.content;
+  if (typeof content === "string") return content;
+
+  // Some tools return a list of content blocks instead of a plain string
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => (typeof part === "object" && part !== null && "text" in part ? String(part.text) : ""))
+      .join("");
   }
+  return content === undefined || content === null ? "" : JSON.stringify(content);
+}
+
+export function truncate(text: string, maxLength: number): string {
+  if (maxLength <= 0 || text.length <= maxLength) return text;
+  const omitted = text.length - maxLength;
+  return `${text.slice(0, maxLength)}\n[truncated ${omitted} chars]`;
+}
+
+export function liveMessageKey(kind: "prompt" | "tool", value: unknown): string {
+  const text = typeof value === "string" ? value.trim() : JSON.stringify(value);
+  return `${kind}:${createHash("sha256").update(text).digest("hex").slice(0, 16)}`;
+}
 
-  saveSyncState(sessionId, {
-    syncedMessageIds: Array.from(syncedSet),
-    lastSyncTime: new Date().toISOString(),
-  });
+/**
+ * ID under which a transcript sync already sent this tool call without its
+ * result (a Task that was still running at SubagentStop), so its PostToolUse
+ * updates that message instead of adding a second one.
+ */
+export function findUnresolvedToolCall(
+  sessionId: string,
+  match: { toolUseId?: string; liveKey: string },
+  profile?: string
+): string | undefined {
+  const unresolved = loadSyncState(sessionId, profile).cursor?.unresolvedToolCalls ?? {};
+  const call = match.toolUseId
+    ? unresolved[match.toolUseId]
+    : Object.values(unresolved).find((c) => c.liveKey === match.liveKey);
+  return call?.message.messageId;
 }
 
-function redactSensitive(text: string): string {
-  if (!text) return text;
+function liveQueue(live: Record<string, string[] | string>, key: string): string[] {
+  const ids = live[key];
+  return typeof ids === "string" ? [ids] : (ids ?? []);
+}
+
+export function recordLiveMessage(sessionId: string, key: string, messageId: string, profile?: string): void {
+  const state = loadSyncState(sessionId, profile);
+  const live = state.liveMessageIds ?? {};
+  saveSyncState(
+    sessionId,
+    {
+      ...state,
+      syncedMessageIds: state.syncedMessageIds ?? [],
+      liveMessageIds: { ...live, [key]: [...liveQueue(live, key), messageId] },
+    },
+    profile
+  );
+}
 
-  const patterns = [
-    /(?:api[_-]?key|apikey|secret|password|token|auth)[=:\s]+["']?[\w\-./+=]{8,}["']?/gi,
-    /(?:sk-|pk_|rk_)[\w\-]{20,}/g,
-    /ghp_[\w]{36}/g,
-    /xoxb-[\w\-]+/g,
-    /-----BEGIN [A-Z ]+-----[\s\S]+?-----END [A-Z ]+-----/g,
-  ];
+/**
+ * Record message IDs as synced. Passing the cursor from parseTranscript also
+ * advances the byte offset so the next parse starts after these lines.
+ * `images` (see uploadedImages) records image data that went out with them.
+ */
+export function markMessagesSynced(
+  sessionId: string,
+  messageIds: string[],
+  cursor?: TranscriptCursor,
+  profile?: string,
+  images?: Record<string, number>
+): void {
+  const state = loadSyncState(sessionId, profile);
+  const syncedSet = new Set(state.syncedMessageIds);
 
-  let result = text;
-  for (const pattern of patterns) {
-    result = result.replace(pattern, "[REDACTED]");
+  for (const id of messageIds) {
+    syncedSet.add(id);
   }
-  return result;
+
+  const syncedMessageIds = Array.from(syncedSet);
+  saveSyncState(
+    sessionId,
+    {
+      syncedMessageIds,
+      lastSyncTime: new Date().toISOString(),
+      cursor: cursor ? { ...cursor, syncedCount: syncedMessageIds.length } : state.cursor,
+      liveMessageIds: state.liveMessageIds,
+      uploadedImages: images ? { ...state.uploadedImages, ...images } : state.uploadedImages,
+    },
+    profile
+  );
 }
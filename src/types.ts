@@ -7,6 +7,14 @@ export interface HookInput {
   hookEventName: string;
   source?: string; // SessionStart: "startup" | "resume" | "clear" | "compact"
   reason?: string; // SessionEnd: "clear" | "logout" | "prompt_input_exit" | "other"
+  prompt?: string; // UserPromptSubmit
+  toolName?: string; // PostToolUse
+  toolInput?: Record<string, unknown>; // PostToolUse
+  toolResponse?: unknown; // PostToolUse
+  toolUseId?: string; // PostToolUse, when Droid sends it
+  trigger?: string; // PreCompact: "manual" | "auto"
+  customInstructions?: string; // PreCompact
+  stopHookActive?: boolean; // Stop, SubagentStop
 }
 
 // Transcript JSONL entry types
@@ -64,6 +72,7 @@ export interface TranscriptToolResultBlock {
   type: "tool_result";
   tool_use_id: string;
   content: string;
+  is_error?: boolean;
 }
 
 export interface TranscriptImageBlock {
@@ -92,6 +101,55 @@ export interface SessionSettings {
   };
 }
 
+// What the agent did in a session, collected from tool_use blocks
+export interface SessionActivity {
+  filesRead: string[]; // paths relative to cwd when inside it
+  filesCreated: string[];
+  filesEdited: string[];
+  filesDeleted: string[];
+  commands: string[];
+  tools: Record<string, { calls: number; errors: number }>;
+}
+
+// Where a session stands across start, resume, compaction and end
+export interface SessionLifecycle {
+  status: "active" | "ended";
+  startedAt?: string;
+  startSource?: string; // last SessionStart source: "startup" | "resume" | "clear" | "compact"
+  predecessorSessionId?: string; // session this one continues after compaction or /clear
+  resumeCount: number;
+  compactionCount: number;
+  endedAt?: string;
+  endReason?: string; // SessionEnd reason
+}
+
+// Shape of the conversation tree, so the final path can be told apart from
+// discarded retries (including messages synced before they were abandoned)
+export interface ConversationSummary {
+  leafMessageId?: string;
+  branchCount: number;
+  branchPoints: number;
+  abandonedMessageIds: string[];
+}
+
+// Git state of the session's working directory
+export interface WorkspaceInfo {
+  repoRoot: string;
+  relativeCwd: string; // cwd relative to repoRoot ("." at the root)
+  branch?: string; // undefined on a detached HEAD
+  remoteUrl?: string; // origin, normalized and stripped of credentials
+  startCommit?: string; // HEAD when the session started
+  headCommit?: string; // HEAD at the last Stop
+  dirty?: boolean;
+  commitCount?: number; // commits made between startCommit and headCommit
+  commits?: string[]; // most recent of those commits, oldest first
+  diffStat?: {
+    filesChanged: number;
+    insertions: number;
+    deletions: number;
+  };
+}
+
 // API data types
 export interface SessionData {
   sessionId: string;
@@ -101,15 +159,38 @@ export interface SessionData {
   projectName?: string;
   cwd?: string;
   gitBranch?: string;
+  workspace?: WorkspaceInfo;
+  activity?: SessionActivity;
+  conversation?: ConversationSummary;
+  lifecycle?: SessionLifecycle;
   model?: string;
   permissionMode?: string;
-  tokenUsage?: { input: number; output: number };
+  startSource?: string;
+  tokenUsage?: {
+    input: number;
+    output: number;
+    cacheCreation?: number;
+    cacheRead?: number;
+    thinking?: number;
+  };
   costEstimate?: number;
   messageCount?: number;
   toolCallCount?: number;
   durationMs?: number;
 }
 
+export interface MessageImage {
+  mediaType: string;
+  width?: number;
+  height?: number;
+  byteSize: number;
+  sha256: string;
+  // Base64 data, only in "full" mode and the first time this image is sent
+  data?: string;
+  // Why data was left out in "full" mode
+  omitted?: "duplicate" | "too-large" | "session-limit" | "batch-limit";
+}
+
 export interface MessageData {
   sessionId: string;
   messageId: string;
@@ -120,6 +201,15 @@ export interface MessageData {
   toolName?: string;
   toolArgs?: Record<string, unknown>;
   toolResult?: string;
+  images?: MessageImage[];
+  // Conversation tree: the synced message this one follows, its depth, and
+  // which branch it is on (forks from edits/retries get a new branch number)
+  parentMessageId?: string;
+  sequence?: number;
+  branch?: number;
+  // Not on the path to the latest message (a discarded edit or retry)
+  abandoned?: boolean;
+  redactionCount?: number;
   durationMs?: number;
   tokenCount?: number;
   timestamp?: string;
@@ -0,0 +1,94 @@
+import { spawn } from "child_process";
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { HookInput } from "./types.js";
+import { logError } from "./log.js";
+
+// Hook events waiting to run, one directory per session
+const JOBS_DIR = join(homedir(), ".config", "droid-sync", "jobs");
+
+export const DEFAULT_WORKER_TIMEOUT_MS = 120000;
+
+interface Job {
+  event: string;
+  input: HookInput;
+}
+
+function getQueueDir(sessionId: string): string {
+  return join(JOBS_DIR, sessionId);
+}
+
+// Sorts in the order the hooks ran: wall clock, then the system-wide monotonic
+// clock for hooks within the same millisecond
+function jobFileName(): string {
+  const now = String(Date.now()).padStart(15, "0");
+  const tick = process.hrtime.bigint().toString().padStart(20, "0");
+  return `${now}-${tick}-${randomBytes(4).toString("hex")}.json`;
+}
+
+// Queue a hook event for its session; takeNextJob hands them out oldest first
+export function enqueueJob(sessionId: string, event: string, input: HookInput): void {
+  const dir = getQueueDir(sessionId);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  // Write then rename so a worker never reads a half-written job
+  const file = join(dir, jobFileName());
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, JSON.stringify({ event, input } satisfies Job));
+  renameSync(tmp, file);
+}
+
+/**
+ * Start a detached `droid-sync hook-worker` that runs the session's queued
+ * events, so the hook itself can return to Droid right away.
+ */
+export function spawnWorker(sessionId: string): void {
+  const child = spawn(process.execPath, [process.argv[1], "hook-worker", sessionId], {
+    detached: true,
+    stdio: "ignore",
+  });
+  child.unref();
+}
+
+// Remove and return the session's oldest queued event. Only call it while
+// holding the session lock, so events run one at a time and in order.
+export function takeNextJob(sessionId: string): Job | null {
+  const dir = getQueueDir(sessionId);
+  if (!existsSync(dir)) return null;
+
+  const files = readdirSync(dir)
+    .filter((f) => f.endsWith(".json"))
+    .sort();
+  for (const file of files) {
+    const path = join(dir, file);
+    try {
+      const job = JSON.parse(readFileSync(path, "utf-8")) as Job;
+      unlinkSync(path);
+      return job;
+    } catch (error) {
+      logError("worker", `Dropping unreadable job ${file}`, error, { sessionId });
+      try {
+        unlinkSync(path);
+      } catch {
+        // Ignore errors
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * End the process after `ms` unless the returned timer is cleared first, so a
+ * hung backend never leaves a stray process behind. The timer doesn't keep the
+ * process alive on its own.
+ */
+export function startHardTimeout(ms: number): NodeJS.Timeout {
+  return setTimeout(() => {
+    console.error(`[droid-sync] Timed out after ${ms}ms`);
+    logError("worker", "Hard timeout reached, exiting", `Timed out after ${ms}ms`);
+    process.exit(1);
+  }, ms).unref();
+}
@@ -0,0 +1,70 @@
+import "./home.js";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { chunkBatch, fitMessage, jsonBytes } from "../src/batch.js";
+import { MessageData } from "../src/types.js";
+
+function message(fields: Partial<MessageData>): MessageData {
+  return { sessionId: "s1", messageId: "m1", source: "factory-droid", role: "assistant", ...fields };
+}
+
+test("fitMessage returns a message that already fits unchanged", () => {
+  const small = message({ content: "hello" });
+  assert.equal(fitMessage(small, 1000), small);
+});
+
+test("fitMessage drops image data before cutting text", () => {
+  const fitted = fitMessage(
+    message({ content: "short", images: [{ mediaType: "image/png", byteSize: 3750, sha256: "abc", data: "A".repeat(5000) }] }),
+    1000
+  );
+  assert.equal(fitted.content, "short");
+  assert.equal(fitted.images?.[0].data, undefined);
+  assert.equal(fitted.images?.[0].omitted, "batch-limit");
+});
+
+test("fitMessage keeps as much multibyte text as fits", () => {
+  const fitted = fitMessage(message({ content: "日本語".repeat(20000) }), 40000);
+  const size = jsonBytes(fitted);
+  assert.ok(size <= 40000, `${size} bytes`);
+  // Three bytes per character: roughly a third of the limit survives, not one character
+  assert.ok(fitted.content!.length > 12000, `${fitted.content!.length} chars kept`);
+  assert.match(fitted.content!, /\[truncated \d+ chars\]$/);
+});
+
+test("fitMessage keeps as much escape-heavy text as fits", () => {
+  const fitted = fitMessage(message({ toolResult: 'say("hi")\n\t'.repeat(5000) }), 40000);
+  const size = jsonBytes(fitted);
+  assert.ok(size <= 40000, `${size} bytes`);
+  assert.ok(size > 39000, `only ${size} bytes used`);
+});
+
+test("fitMessage cuts tool arguments by their serialized size", () => {
+  const fitted = fitMessage(message({ toolArgs: { command: "é\"".repeat(10000) } }), 5000);
+  assert.ok(jsonBytes(fitted) <= 5000);
+  assert.equal(typeof fitted.toolArgs?.truncated, "string");
+});
+
+test("fitMessage honours a custom measure", () => {
+  // A destination that wraps each message doubles its size
+  const measure = (m: MessageData) => jsonBytes(m) * 2;
+  const fitted = fitMessage(message({ content: "ü".repeat(10000) }), 8000, measure);
+  assert.ok(measure(fitted) <= 8000);
+  assert.ok(measure(fitted) > 7000);
+});
+
+test("chunkBatch splits by count and byte limits in order", () => {
+  const messages = Array.from({ length: 5 }, (_, i) => message({ messageId: `m${i}`, content: "x".repeat(100) }));
+  const byCount = chunkBatch([], messages, { maxMessages: 2, maxBytes: 0 });
+  assert.deepEqual(
+    byCount.map((chunk) => chunk.messages.map((m) => m.messageId)),
+    [["m0", "m1"], ["m2", "m3"], ["m4"]]
+  );
+
+  const byBytes = chunkBatch([], messages, { maxMessages: 0, maxBytes: 700 });
+  assert.ok(byBytes.length > 1);
+  assert.deepEqual(
+    byBytes.flatMap((chunk) => chunk.messages.map((m) => m.messageId)),
+    messages.map((m) => m.messageId)
+  );
+});
@@ -0,0 +1,29 @@
+import "./home.js";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { renderHtml } from "../src/export.js";
+import { MessageData, MessageImage } from "../src/types.js";
+
+function render(image: Partial<MessageImage>): string {
+  const message: MessageData = {
+    sessionId: "s1",
+    messageId: "m1",
+    source: "factory-droid",
+    role: "user",
+    images: [{ mediaType: "image/png", byteSize: 3, sha256: "abc", ...image }],
+  };
+  return renderHtml({ session: { sessionId: "s1", source: "factory-droid" }, messages: [message] });
+}
+
+test("renderHtml inlines well-formed image data", () => {
+  assert.match(render({ data: "iVBORw0KGgo=" }), /<img src="data:image\/png;base64,iVBORw0KGgo="/);
+});
+
+test("renderHtml never puts crafted image data or media types into the page", () => {
+  const attack = '"><script>alert(1)</script>';
+  for (const html of [render({ data: `AAAA${attack}` }), render({ mediaType: `image/png${attack}`, data: "AAAA" })]) {
+    assert.doesNotMatch(html, /<script>/);
+    assert.doesNotMatch(html, /<img/);
+    assert.match(html, /Image: /);
+  }
+});
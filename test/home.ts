@@ -0,0 +1,8 @@
+// Point HOME at a throwaway directory before any module under test reads it,
+// so config, state and logs never touch the real ~/.config/droid-sync
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+process.env.HOME = mkdtempSync(join(tmpdir(), "droid-sync-test-"));
+process.on("exit", () => rmSync(process.env.HOME!, { recursive: true, force: true }));
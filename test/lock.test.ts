@@ -0,0 +1,110 @@
+import "./home.js";
+import assert from "node:assert/strict";
+import { spawn, spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, readFileSync, utimesSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+import { test } from "node:test";
+import { withSessionLock } from "../src/lock.js";
+
+const LOCK_DIR = join(homedir(), ".config", "droid-sync", "locks");
+const opts = { waitMs: 2000, maxAgeMs: 60_000 };
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+test("holders of one session's lock never overlap", async () => {
+  const events: string[] = [];
+  const hold = (name: string) =>
+    withSessionLock("overlap", opts, async () => {
+      events.push(`${name} start`);
+      await sleep(150);
+      events.push(`${name} end`);
+    });
+
+  await Promise.all([hold("a"), hold("b")]);
+  assert.deepEqual(events, ["a start", "a end", "b start", "b end"]);
+});
+
+test("the lock file carries its owner while held and is removed after", async () => {
+  const file = join(LOCK_DIR, "owner.lock");
+  await withSessionLock("owner", opts, async () => {
+    assert.equal(JSON.parse(readFileSync(file, "utf-8")).pid, process.pid);
+  });
+  assert.equal(existsSync(file), false);
+});
+
+test("waiting gives up after waitMs while another holder is live", async () => {
+  let release!: () => void;
+  const holding = withSessionLock("busy", opts, () => new Promise<void>((r) => (release = r)));
+  await sleep(50);
+  await assert.rejects(
+    withSessionLock("busy", { ...opts, waitMs: 200 }, async () => {}),
+    /Timed out waiting for the sync lock/
+  );
+  release();
+  await holding;
+});
+
+test("a lock left by a dead process is taken over", async () => {
+  const dead = spawnSync(process.execPath, ["-e", ""]).pid;
+  mkdirSync(LOCK_DIR, { recursive: true });
+  writeFileSync(join(LOCK_DIR, "dead.lock"), JSON.stringify({ pid: dead, createdAt: Date.now() }));
+
+  let ran = false;
+  await withSessionLock("dead", { ...opts, waitMs: 0 }, async () => {
+    ran = true;
+  });
+  assert.equal(ran, true);
+});
+
+test("a lock older than maxAgeMs is taken over", async () => {
+  mkdirSync(LOCK_DIR, { recursive: true });
+  writeFileSync(join(LOCK_DIR, "old.lock"), JSON.stringify({ pid: process.pid, createdAt: Date.now() - 120_000 }));
+
+  let ran = false;
+  await withSessionLock("old", { ...opts, waitMs: 0 }, async () => {
+    ran = true;
+  });
+  assert.equal(ran, true);
+});
+
+test("an empty lock file is held while fresh and taken over once old", async () => {
+  const file = join(LOCK_DIR, "empty.lock");
+  mkdirSync(LOCK_DIR, { recursive: true });
+  writeFileSync(file, "");
+  await assert.rejects(withSessionLock("empty", { ...opts, waitMs: 200 }, async () => {}), /Timed out/);
+
+  const old = new Date(Date.now() - 60_000);
+  utimesSync(file, old, old);
+  let ran = false;
+  await withSessionLock("empty", { ...opts, waitMs: 0 }, async () => {
+    ran = true;
+  });
+  assert.equal(ran, true);
+});
+
+test("workers in separate processes take turns", async () => {
+  const counter = join(homedir(), "counter");
+  writeFileSync(counter, "0");
+  // Each worker does an unprotected read-modify-write of the counter under the lock
+  const script = `
+    import { readFileSync, writeFileSync } from "node:fs";
+    import { withSessionLock } from ${JSON.stringify(resolve("src/lock.ts"))};
+    for (let i = 0; i < 20; i++) {
+      await withSessionLock("shared", { waitMs: 30000, maxAgeMs: 60000 }, async () => {
+        const n = Number(readFileSync(${JSON.stringify(counter)}, "utf-8"));
+        await new Promise((r) => setTimeout(r, 2));
+        writeFileSync(${JSON.stringify(counter)}, String(n + 1));
+      });
+    }
+  `;
+  const run = () =>
+    new Promise<number | null>((done) =>
+      spawn(process.execPath, ["--import", "tsx", "--input-type=module", "-e", script], { stdio: "inherit" }).on(
+        "exit",
+        done
+      )
+    );
+
+  assert.deepEqual(await Promise.all([run(), run(), run()]), [0, 0, 0]);
+  assert.equal(readFileSync(counter, "utf-8"), "60");
+});
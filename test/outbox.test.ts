@@ -0,0 +1,123 @@
+import "./home.js";
+import assert from "node:assert/strict";
+import { readdirSync, renameSync, rmSync, utimesSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { beforeEach, test } from "node:test";
+import { enqueue, flushOutbox, loadOutbox } from "../src/outbox.js";
+import { Sink } from "../src/sinks.js";
+import { MessageData } from "../src/types.js";
+
+const OUTBOX_DIR = join(homedir(), ".config", "droid-sync", "outbox");
+
+function message(id: string): MessageData {
+  return { sessionId: "s1", messageId: id, source: "factory-droid", role: "user", content: id };
+}
+
+// Records the messages it delivers; with `fail` it delivers only `deliver` of them and then throws
+function fakeSink(opts: { delayMs?: number; fail?: boolean; deliver?: number } = {}) {
+  const delivered: string[] = [];
+  const sink: Sink = {
+    async syncSession() {},
+    async syncBatch(_sessions, messages, onChunk) {
+      await new Promise((r) => setTimeout(r, opts.delayMs ?? 0));
+      const count = opts.fail ? (opts.deliver ?? 0) : messages.length;
+      if (count > 0) {
+        delivered.push(...messages.slice(0, count).map((m) => m.messageId));
+        onChunk?.(messages.slice(0, count));
+      }
+      if (opts.fail) throw new Error("backend down");
+    },
+    async testConnection() {
+      return true;
+    },
+  };
+  return { sink, delivered };
+}
+
+function queue(ids: string[]) {
+  return enqueue({ profile: "p", sessionId: "s1", sessions: [], messages: ids.map(message), messageIds: ids });
+}
+
+beforeEach(() => rmSync(OUTBOX_DIR, { recursive: true, force: true }));
+
+test("a flushed entry is delivered and removed", async () => {
+  queue(["a", "b"]);
+  const { sink, delivered } = fakeSink();
+  assert.deepEqual(await flushOutbox(sink, { profile: "p", force: true }), { sent: 1, failed: 0, skipped: 0 });
+  assert.deepEqual(delivered, ["a", "b"]);
+  assert.deepEqual(loadOutbox(), []);
+});
+
+test("entries are not due before their retry time unless forced", async () => {
+  queue(["a"]);
+  const { sink, delivered } = fakeSink();
+  assert.deepEqual(await flushOutbox(sink, { profile: "p" }), { sent: 0, failed: 0, skipped: 1 });
+  assert.deepEqual(delivered, []);
+});
+
+test("concurrent flushers send each entry once", async () => {
+  queue(["a"]);
+  queue(["b"]);
+  const first = fakeSink({ delayMs: 50 });
+  const second = fakeSink({ delayMs: 50 });
+
+  const results = await Promise.all([
+    flushOutbox(first.sink, { profile: "p", force: true }),
+    flushOutbox(second.sink, { profile: "p", force: true }),
+  ]);
+  assert.equal(results[0].sent + results[1].sent, 2);
+  assert.deepEqual([...first.delivered, ...second.delivered].sort(), ["a", "b"]);
+  assert.deepEqual(loadOutbox(), []);
+});
+
+test("a failed flush keeps only the undelivered messages and schedules a retry", async () => {
+  queue(["a", "b", "c"]);
+  const { sink, delivered } = fakeSink({ fail: true, deliver: 1 });
+  assert.deepEqual(await flushOutbox(sink, { profile: "p", force: true }), { sent: 0, failed: 1, skipped: 0 });
+  assert.deepEqual(delivered, ["a"]);
+
+  const [entry] = loadOutbox();
+  assert.deepEqual(entry.messages.map((m) => m.messageId), ["b", "c"]);
+  assert.equal(entry.attempts, 2);
+  assert.match(entry.lastError!, /backend down/);
+  assert.deepEqual(readdirSync(OUTBOX_DIR), [`${entry.id}.json`]);
+});
+
+test("a failing flusher doesn't bring back an entry another one delivered", async () => {
+  queue(["a"]);
+  const slowFailure = fakeSink({ delayMs: 50, fail: true });
+  const success = fakeSink();
+
+  const failing = flushOutbox(slowFailure.sink, { profile: "p", force: true });
+  const succeeding = flushOutbox(success.sink, { profile: "p", force: true });
+  await Promise.all([failing, succeeding]);
+
+  // The first flusher claimed the entry, so it alone attempts it and puts it back
+  assert.deepEqual(success.delivered, []);
+  assert.equal(loadOutbox().length, 1);
+});
+
+test("an entry left in flight by a dead flusher is put back", async () => {
+  const entry = queue(["a"]);
+  // Claimed by a flusher that then died long ago
+  const inflight = join(OUTBOX_DIR, `${entry.id}.inflight`);
+  renameSync(join(OUTBOX_DIR, `${entry.id}.json`), inflight);
+  const old = new Date(Date.now() - 60 * 60 * 1000);
+  utimesSync(inflight, old, old);
+
+  const { sink, delivered } = fakeSink();
+  await flushOutbox(sink, { profile: "p", force: true });
+  assert.deepEqual(delivered, ["a"]);
+  assert.deepEqual(loadOutbox(), []);
+});
+
+test("an entry in flight elsewhere is listed but not sent again", async () => {
+  const entry = queue(["a"]);
+  renameSync(join(OUTBOX_DIR, `${entry.id}.json`), join(OUTBOX_DIR, `${entry.id}.inflight`));
+
+  const { sink, delivered } = fakeSink();
+  assert.deepEqual(await flushOutbox(sink, { profile: "p", force: true }), { sent: 0, failed: 0, skipped: 0 });
+  assert.deepEqual(delivered, []);
+  assert.equal(loadOutbox().length, 1);
+});
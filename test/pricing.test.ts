@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DEFAULT_PRICING, estimateCost, findPricing } from "../src/pricing.js";
+
+test("findPricing resolves dated and versioned snapshots to their model", () => {
+  assert.equal(findPricing("claude-sonnet-4-5-20250929"), DEFAULT_PRICING["claude-sonnet-4-5"]);
+  assert.equal(findPricing("claude-opus-4-1-20250805"), DEFAULT_PRICING["claude-opus-4-1"]);
+  assert.equal(findPricing("o3-2025-04-16"), DEFAULT_PRICING.o3);
+  assert.equal(findPricing("claude-3-5-haiku@20241022"), DEFAULT_PRICING["claude-3-5-haiku"]);
+  assert.equal(findPricing("Claude-3-7-Sonnet-Latest"), DEFAULT_PRICING["claude-3-7-sonnet"]);
+});
+
+test("findPricing leaves other variants of a model unpriced", () => {
+  for (const model of ["o3-pro", "claude-opus-4-6", "gpt-5.1", "gpt-5-codex-max", "gemini-2.5-flash-lite"]) {
+    assert.equal(findPricing(model), undefined, model);
+  }
+});
+
+test("overrides can price a model the built-in table doesn't know", () => {
+  const overrides = { "o3-pro": { input: 20, output: 80 } };
+  assert.deepEqual(findPricing("o3-pro-2025-06-10", overrides), overrides["o3-pro"]);
+  assert.equal(estimateCost("o3-pro", { inputTokens: 1_000_000, outputTokens: 500_000 }, overrides), 60);
+  assert.equal(estimateCost("o3-pro", { inputTokens: 1_000_000 }), undefined);
+});
@@ -0,0 +1,80 @@
+import "./home.js";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { extractNewMessages, markMessagesSynced, parseTranscript } from "../src/transcript.js";
+
+let counter = 0;
+
+function line(id: string, role: "user" | "assistant", content: unknown[], parentId?: string): string {
+  const entry = { type: "message", id, parentId, timestamp: "2026-01-01T00:00:00Z", message: { role, content } };
+  return JSON.stringify(entry) + "\n";
+}
+
+const text = (value: string) => [{ type: "text", text: value }];
+
+// A fresh transcript file and session ID per test, so sync state never carries over
+function transcript(...lines: string[]): { path: string; sessionId: string } {
+  const sessionId = `session-${++counter}`;
+  const path = join(mkdtempSync(join(homedir(), "transcript-")), `${sessionId}.jsonl`);
+  writeFileSync(path, lines.join(""));
+  return { path, sessionId };
+}
+
+function sync(path: string, sessionId: string) {
+  const parsed = parseTranscript(path, { sessionId });
+  const extracted = extractNewMessages({ sessionId, transcript: parsed, syncToolCalls: true, syncThinking: false });
+  markMessagesSynced(sessionId, extracted.newMessageIds, parsed.cursor);
+  return { parsed, ...extracted };
+}
+
+test("a later parse resumes from the saved offset and only yields new messages", () => {
+  const { path, sessionId } = transcript(line("m1", "user", text("hi")), line("m2", "assistant", text("hello"), "m1"));
+  const first = sync(path, sessionId);
+  assert.equal(first.parsed.incremental, undefined);
+  assert.deepEqual(first.newMessageIds, ["m1", "m2"]);
+
+  appendFileSync(path, line("m3", "user", text("more"), "m2"));
+  const second = sync(path, sessionId);
+  assert.equal(second.parsed.incremental, true);
+  assert.deepEqual(second.parsed.messages.map((m) => m.id), ["m3"]);
+  assert.equal(second.parsed.messageCount, 3);
+  assert.deepEqual(second.newMessageIds, ["m3"]);
+});
+
+test("a line still being written is left for the next parse", () => {
+  const { path, sessionId } = transcript(line("m1", "user", text("hi")));
+  const partial = line("m2", "assistant", text("hello"), "m1");
+  appendFileSync(path, partial.slice(0, 20));
+
+  assert.deepEqual(sync(path, sessionId).newMessageIds, ["m1"]);
+  appendFileSync(path, partial.slice(20));
+  assert.deepEqual(sync(path, sessionId).newMessageIds, ["m2"]);
+});
+
+test("a rewritten transcript is parsed from the start again", () => {
+  const { path, sessionId } = transcript(line("m1", "user", text("hi")), line("m2", "assistant", text("hello"), "m1"));
+  sync(path, sessionId);
+
+  writeFileSync(path, line("m1", "user", text("hi")) + line("m9", "assistant", text("rewritten"), "m1"));
+  const again = sync(path, sessionId);
+  assert.notEqual(again.parsed.incremental, true);
+  assert.deepEqual(again.newMessageIds, ["m9"]);
+});
+
+test("tool results are paired with their call across messages and parses", () => {
+  const { path, sessionId } = transcript(
+    line("m1", "user", text("read it")),
+    line("m2", "assistant", [{ type: "tool_use", id: "t1", name: "Read", input: { file_path: "a.ts" } }], "m1")
+  );
+  sync(path, sessionId);
+
+  appendFileSync(path, line("m3", "user", [{ type: "tool_result", tool_use_id: "t1", content: "file body" }], "m2"));
+  const { parsed, newMessages } = sync(path, sessionId);
+  assert.equal(parsed.toolCallCount, 1);
+  const call = newMessages.find((m) => m.toolName === "Read");
+  assert.equal(call?.toolResult, "file body");
+  assert.deepEqual(call?.toolArgs, { file_path: "a.ts" });
+});